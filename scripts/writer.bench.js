@@ -0,0 +1,70 @@
+import { bench } from 'vitest'
+// Скомпилируем, чтобы получить более точный результат JS
+import { LiteError, StringSink, errorToJsonLike, errorWriteJson, errorWriteText, jsonObjectInto, writeTextInto } from '../dist/dev.js'
+
+// # Производительность записи ошибки в текст и JSON:
+//    + Прежний путь errorToString(): JsonLike объект -> массив строк -> join()
+//    + Два прохода: обход в JsonLike объект и запись объекта writeTextInto()/JSON.stringify()
+//    + Один проход: запись в приемник по мере обхода errorWriteText()/errorWriteJson()
+
+const error = new LiteError({
+  name: 'BenchError',
+  message: 'Request failed\nwith a multiline message',
+  code: 'E_BENCH',
+  stack: Array.from({ length: 12 }, (_, i) => `    at fn${i} (file:///app/src/module${i}.js:10:5)`).join('\n'),
+  request: { method: 'POST', url: '/api/items', headers: { accept: 'application/json', 'x-request-id': 'abc-123' } },
+  items: [1, 2, 3, { id: 4, tags: ['a', 'b'] }],
+  cause: new Error('socket hang up', { cause: { code: 'ECONNRESET', retries: 3 } })
+})
+const options = { includeStack: true, maxDepth: 4 }
+
+bench('text: object + lines + join', () => {
+  const receiver = []
+  jsonObjectInto(errorToJsonLike(error, options), receiver, 0)
+  if (receiver.join('\n').length === 0) { /**/ }
+})
+
+bench('text: object + writeTextInto', () => {
+  const sink = new StringSink()
+  writeTextInto(errorToJsonLike(error, options), sink.write)
+  if (sink.value.length === 0) { /**/ }
+})
+
+bench('text: single pass', () => {
+  const sink = new StringSink()
+  errorWriteText(error, sink.write, options)
+  if (sink.value.length === 0) { /**/ }
+})
+
+bench('json: object + JSON.stringify', () => {
+  if (JSON.stringify(errorToJsonLike(error, options)).length === 0) { /**/ }
+})
+
+bench('json: single pass', () => {
+  const sink = new StringSink()
+  errorWriteJson(error, sink.write, options)
+  if (sink.value.length === 0) { /**/ }
+})
+
+/* NodeJS v20
+ ✓ scripts/writer.bench.js 3188ms
+     name                                  hz     min      max    mean     p75     p99    p995    p999      rme  samples
+   · text: object + lines + join    42,171.57  0.0121  16.1736  0.0237  0.0221  0.0504  0.0620  0.7289  ±11.60%    21086
+   · text: object + writeTextInto   64,765.00  0.0099   2.7305  0.0154  0.0186  0.0264  0.0458  0.3702   ±1.86%    32383
+   · text: single pass              60,030.79  0.0098   4.4225  0.0167  0.0182  0.0278  0.0385  0.3680   ±3.51%    30016
+   · json: object + JSON.stringify  75,441.98  0.0101   0.7918  0.0133  0.0133  0.0241  0.0287  0.0771   ±0.98%    37721
+   · json: single pass              58,382.74  0.0125   8.1244  0.0171  0.0152  0.0285  0.0376  0.4345   ±5.98%    29192
+
+ BENCH  Summary
+
+  json: object + JSON.stringify - scripts/writer.bench.js
+    1.16x faster than text: object + writeTextInto
+    1.26x faster than text: single pass
+    1.29x faster than json: single pass
+    1.79x faster than text: object + lines + join
+
+ Текст в один проход(errorToString()) быстрее прежнего пути через массив строк в ~1.4 раза и не создает промежуточный
+ объект, но по скорости не отличается от записи готового объекта: стоимость определяется формированием строк, а не
+ обходом. Нативный JSON.stringify() готового объекта остается быстрее записи JSON по фрагментам - errorWriteJson()
+ выигрывает только в памяти и полезен для потоковых приемников.
+*/
@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError } from './errors.ts'
+//
+import {
+  ANSI_STYLES,
+  isAnsiColorEnabled,
+  writeAnsiInto,
+  errorToAnsi
+} from './ansi.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+const { red, yellow, bold, dim, magenta, reset } = ANSI_STYLES
+const proc: any = Reflect.get(globalThis, 'process')
+
+function render (json: Record<string, any>, color: boolean): string {
+  let result = ''
+  writeAnsiInto(json, (chunk) => { result += chunk }, color)
+  return result
+}
+
+describe('ansi', () => {
+  test('cause tree without color', () => {
+    const json = {
+      name: 'AppError',
+      code: 'E0058',
+      message: 'Request failed',
+      status: 404,
+      headers: { accept: 'json' },
+      stack: 'AppError: Request failed\n    at main (app.js:1:1)',
+      cause: {
+        name: 'TypeError',
+        message: 'fetch failed',
+        cause: { __meta: { kind: 'error', name: 'Error', message: 'socket' } }
+      }
+    }
+    expect(render(json, false)).toBe([
+      'AppError [E0058]: Request failed',
+      '  status: 404',
+      '  headers:',
+      '    accept: json',
+      '  AppError: Request failed',
+      '  at main (app.js:1:1)',
+      '└─ TypeError: fetch failed',
+      '   └─ Error: socket'
+    ].join('\n'))
+    expect(render({ message: 'a', cause: 'reason' }, false)).toBe('Error: a\n└─ cause: reason')
+  })
+
+  test('colors', () => {
+    expect(render({ name: 'E', code: 1, message: 'm', stack: 'at x' }, true)).toBe([
+      `${bold}${red}E${reset} ${magenta}[1]${reset}: m`,
+      `  ${dim}at x${reset}`
+    ].join('\n'))
+    expect(render({ name: 'W', level: 'warn' }, true)).toBe(`${bold}${yellow}W${reset}\n  level: warn`)
+  })
+
+  test('stack frames', () => {
+    const json = {
+      name: 'E',
+      stack: [
+        { functionName: 'main', file: 'app.js', line: 1, column: 2, isNative: false, isAsync: false, isEval: false },
+        { functionName: null, file: 'lib.js', line: 3, column: null, isNative: false, isAsync: false, isEval: false },
+        { __meta: { kind: 'array', total: 5, truncated: 3 } }
+      ]
+    }
+    expect(render(json, false)).toBe('E\n  at main (app.js:1:2)\n  at lib.js:3\n  ... 3 more')
+  })
+
+  test('isAnsiColorEnabled', () => {
+    expect(isAnsiColorEnabled({ isTTY: false })).toBe(false)
+    expect(isAnsiColorEnabled({})).toBe(false)
+    if (proc?.env) {
+      const saved = proc.env.NO_COLOR
+      try {
+        delete proc.env.NO_COLOR
+        expect(isAnsiColorEnabled({ isTTY: true })).toBe(true)
+        proc.env.NO_COLOR = '1'
+        expect(isAnsiColorEnabled({ isTTY: true })).toBe(false)
+      } finally {
+        if (typeof saved === 'undefined') {
+          delete proc.env.NO_COLOR
+        }
+        else {
+          proc.env.NO_COLOR = saved
+        }
+      }
+    }
+  })
+
+  test('errorToAnsi uses serialization options', () => {
+    const error = new AppError({ message: 'failed', code: 'E1', password: 'secret', status: 500 })
+    expect(errorToAnsi(error, { exclude: 'password' }, { color: false })).toBe('AppError [E1]: failed\n  status: 500')
+    expect(errorToAnsi(error, { exclude: 'password' }, { stream: { isTTY: false } })).toBe('AppError [E1]: failed\n  status: 500')
+    expect(errorToAnsi(error, { include: ['message'] }, { color: true })).toBe(`${bold}${red}Error${reset}: failed`)
+  })
+
+  test('escapes control characters of data', () => {
+    const json = {
+      name: 'E\x1b[2J',
+      code: 'C\x07',
+      message: 'line1\nline2\x1b]0;title\x07\r',
+      'k\x1b': 'v\x9b31m\tend',
+      stack: ['    at main (app.js:1:1)\x1b[8m']
+    }
+    const expected = 'E\\x1b[2J [C\\x07]: line1\n  line2\\x1b]0;title\\x07\\x0d\n  k\\x1b: v\\x9b31m\\x09end\n  at main (app.js:1:1)\\x1b[8m'
+    expect(render(json, false)).toBe(expected)
+    expect(render(json, true)).not.toContain('\x1b[2J')
+    expect(render(json, true)).not.toContain('\x07')
+  })
+})
@@ -0,0 +1,254 @@
+import type {
+  TNullish,
+  TJsonObject,
+  TJsonLike
+} from './types.ts'
+import {
+  type TSerializationOptions,
+  type SerializationParameters,
+  ensureSerializationParameters
+} from './options.ts'
+import { errorToJsonLike } from './serialization.ts'
+import { type TStackFrame, formatStackFrame } from './stack.ts'
+import type { TWriterSink } from './writer.ts'
+
+/**
+ * Управляющие последовательности ANSI, используемые {@link errorToAnsi()}.
+ */
+const ANSI_STYLES: {
+  readonly reset: string
+  readonly bold: string
+  readonly dim: string
+  readonly red: string
+  readonly yellow: string
+  readonly cyan: string
+  readonly magenta: string
+} = Object.freeze({
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  magenta: '\x1b[35m'
+})
+
+/**
+ * Поток вывода, для которого определяется поддержка цвета, например `process.stderr`.
+ */
+type TAnsiStream = { readonly isTTY?: TNullish | boolean }
+
+/**
+ * Опции {@link errorToAnsi()}.
+ */
+type TAnsiRenderOptions = {
+  /**
+   * Использовать ли цвет. По умолчанию `null` - цвет включается, если поток является терминалом и переменная окружения
+   * `NO_COLOR` не установлена.
+   */
+  color?: TNullish | boolean
+  /**
+   * Поток вывода для автоматического определения цвета. По умолчанию `process.stderr`, если он доступен.
+   */
+  stream?: TNullish | TAnsiStream
+}
+
+/**
+ * Поддерживает ли поток цветной вывод. Возвращает `false`, если установлена непустая переменная окружения
+ * [`NO_COLOR`](https://no-color.org/) или поток не является терминалом.
+ *
+ * @param stream Поток вывода. По умолчанию `process.stderr`, если он доступен.
+ */
+function isAnsiColorEnabled (stream?: TNullish | TAnsiStream): boolean {
+  try {
+    const proc: any = Reflect.get(globalThis, 'process')
+    const noColor: unknown = proc?.env?.NO_COLOR
+    if (typeof noColor === 'string' && noColor.length > 0) {
+      return false
+    }
+    return (stream ?? proc?.stderr)?.isTTY === true
+  } catch { /**/ }
+  return false
+}
+
+// Управляющие символы C0, кроме перевода строки, DEL и C1
+// eslint-disable-next-line no-control-regex
+const _CONTROL_RE = /[\x00-\x09\x0b-\x1f\x7f-\x9f]/g
+
+/**
+ * Экранирует управляющие символы строки, чтобы данные ошибки не могли изменить состояние терминала, например
+ * последовательностью `\x1b[2J`. Экранирование выполняется независимо от цвета.
+ */
+function _escapeControls (value: string): string {
+  return value.replace(_CONTROL_RE, (char: string) => `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+}
+
+function _isObject (value: TJsonLike | undefined): value is TJsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function _levelColor (level: TJsonLike | undefined): string {
+  switch (level) {
+    case 'warn':
+      return ANSI_STYLES.yellow
+    case 'info':
+      return ANSI_STYLES.cyan
+    case 'debug':
+      return ANSI_STYLES.dim
+  }
+  return ANSI_STYLES.red
+}
+
+class _AnsiLines {
+  protected readonly _sink: TWriterSink
+  protected readonly _color: boolean
+  protected _first = true
+
+  constructor(sink: TWriterSink, color: boolean) {
+    this._sink = sink
+    this._color = color
+  }
+
+  paint (style: string, value: string): string {
+    return this._color ? `${style}${value}${ANSI_STYLES.reset}` : value
+  }
+
+  line (value: string): void {
+    this._sink(this._first ? value : `\n${value}`)
+    this._first = false
+  }
+}
+
+function _stackItem (item: TJsonLike, metaFieldName: string): string {
+  if (typeof item === 'string') {
+    return _escapeControls(item.trim())
+  }
+  if (_isObject(item)) {
+    const meta = item[metaFieldName]
+    if (_isObject(meta) && typeof meta['truncated'] === 'number') {
+      return `... ${meta['truncated']} more`
+    }
+    if ('file' in item || 'functionName' in item) {
+      return _escapeControls(formatStackFrame(item as Partial<TStackFrame>))
+    }
+  }
+  return _escapeControls(JSON.stringify(item))
+}
+
+function _writeValue (key: string, value: TJsonLike, lines: _AnsiLines, indent: string, style: null | string, head: string = indent): void {
+  const safeKey = _escapeControls(key)
+  const label = style ? lines.paint(style, `${safeKey}:`) : `${safeKey}:`
+  if (_isObject(value) || Array.isArray(value)) {
+    lines.line(`${head}${label}`)
+    const entries: [string, TJsonLike][] = Array.isArray(value)
+      ? value.map((item, i) => [`[${i}]`, item])
+      : Object.entries(value)
+    for (const [k, v] of entries) {
+      _writeValue(k, v, lines, `${indent}  `, style)
+    }
+    return
+  }
+  const [first, ...rest] = _escapeControls(String(value)).split('\n')
+  lines.line(`${head}${label} ${style ? lines.paint(style, first as string) : first as string}`)
+  for (const line of rest) {
+    lines.line(`${indent}  ${style ? lines.paint(style, line) : line}`)
+  }
+}
+
+function _isErrorNode (value: TJsonLike | undefined, metaFieldName: string): value is TJsonObject {
+  if (!_isObject(value)) {
+    return false
+  }
+  if (typeof value['name'] === 'string' || typeof value['message'] === 'string') {
+    return true
+  }
+  const meta = value[metaFieldName]
+  return _isObject(meta) && meta['kind'] === 'error'
+}
+
+function _writeError (node: TJsonObject, lines: _AnsiLines, head: string, prefix: string, metaFieldName: string): void {
+  // Ошибка, превысившая глубину, записана заместителем `{ __meta: { kind: 'error', name, message } }`
+  const meta = node[metaFieldName]
+  const source = (typeof node['name'] !== 'string' && typeof node['message'] !== 'string' && _isObject(meta)) ? meta : node
+  let header = lines.paint(ANSI_STYLES.bold + _levelColor(source['level']), typeof source['name'] === 'string' ? _escapeControls(source['name']) : 'Error')
+  if (typeof source['code'] === 'string' || typeof source['code'] === 'number') {
+    header += ` ${lines.paint(ANSI_STYLES.magenta, `[${_escapeControls(String(source['code']))}]`)}`
+  }
+  if (typeof source['message'] === 'string') {
+    header += `: ${_escapeControls(source['message'])}`
+  }
+  const [first, ...rest] = header.split('\n')
+  lines.line(`${head}${first as string}`)
+  const indent = `${prefix}  `
+  for (const line of rest) {
+    lines.line(`${indent}${line}`)
+  }
+  if (source !== node) {
+    return
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'name' || key === 'message' || key === 'code' || key === 'stack' || key === 'cause') {
+      continue
+    }
+    _writeValue(key, value, lines, indent, key === metaFieldName ? ANSI_STYLES.dim : null)
+  }
+  const stack = node['stack']
+  if (typeof stack === 'string' || Array.isArray(stack)) {
+    const items = typeof stack === 'string' ? stack.split('\n') : stack
+    for (const item of items) {
+      lines.line(`${indent}${lines.paint(ANSI_STYLES.dim, _stackItem(item, metaFieldName))}`)
+    }
+  }
+  const cause = node['cause']
+  if (_isErrorNode(cause, metaFieldName)) {
+    _writeError(cause, lines, `${prefix}└─ `, `${prefix}   `, metaFieldName)
+  }
+  else if (typeof cause !== 'undefined') {
+    _writeValue('cause', cause, lines, `${prefix}   `, null, `${prefix}└─ `)
+  }
+}
+
+/**
+ * Записывает результат сериализации ошибки в текстовом формате для терминала: имя ошибки окрашено по уровню
+ * `level`(`warn` - желтым, `error` и `fatal` - красным), код выделен, стек приглушен, а цепочка `cause` отображается
+ * деревом. Управляющие символы данных, кроме перевода строки, экранируются и без цвета.
+ *
+ * @param objectSource  Результат {@link errorToJsonLike()}.
+ * @param sink          Приемник фрагментов.
+ * @param color         Добавлять ли управляющие последовательности ANSI.
+ * @param metaFieldName Имя поля метаинформации {@link TSerializationOptions.metaFieldName}.
+ */
+function writeAnsiInto (objectSource: TJsonObject, sink: TWriterSink, color: boolean, metaFieldName = '__meta'): void {
+  _writeError(objectSource, new _AnsiLines(sink, color), '', '', metaFieldName)
+}
+
+/**
+ * Приводит любое значение к цветному тексту для терминала. Сериализация выполняется {@link errorToJsonLike()}, поэтому
+ * применяются те же ограничения и правила `include/exclude`, что и для `toStringWith()`.
+ *
+ * @param anyValue      Предполагаемая ошибка.
+ * @param options       Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
+ * @param renderOptions Опции цвета {@link TAnsiRenderOptions}.
+ *
+ * @example
+ * ```ts
+ * process.stderr.write(errorToAnsi(error, { includeStack: true }) + '\n')
+ * ```
+ */
+function errorToAnsi (anyValue: any, options?: TNullish | TSerializationOptions | SerializationParameters, renderOptions?: TNullish | TAnsiRenderOptions): string {
+  const params = ensureSerializationParameters(options)
+  const color = (typeof renderOptions?.color === 'boolean') ? renderOptions.color : isAnsiColorEnabled(renderOptions?.stream)
+  let result = ''
+  writeAnsiInto(errorToJsonLike(anyValue, params) as TJsonObject, (chunk) => { result += chunk }, color, params.metaFieldName)
+  return result
+}
+
+export {
+  ANSI_STYLES,
+  type TAnsiStream,
+  type TAnsiRenderOptions,
+  isAnsiColorEnabled,
+  writeAnsiInto,
+  errorToAnsi
+}
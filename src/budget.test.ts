@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError } from './errors.ts'
+import { SerializationParameters } from './options.ts'
+import { errorToJsonLike, errorToJsonLikeWithReport } from './serialization.ts'
+//
+import {
+  MIN_BUDGET_MESSAGE_LENGTH,
+  utf8ByteLength,
+  jsonByteLength,
+  fitJsonToByteBudget
+} from './budget.ts'
+
+function bytes (value: unknown): number {
+  return utf8ByteLength(JSON.stringify(value))
+}
+
+describe('budget', () => {
+  test('utf8ByteLength', () => {
+    expect(utf8ByteLength('')).toBe(0)
+    expect(utf8ByteLength('abc')).toBe(3)
+    expect(utf8ByteLength('ж')).toBe(2)
+    expect(utf8ByteLength('€')).toBe(3)
+    expect(utf8ByteLength('😀')).toBe(4)
+    expect(utf8ByteLength('\uD800')).toBe(3) // lone surrogate
+  })
+
+  test('jsonByteLength', () => {
+    const values = [
+      null,
+      true,
+      false,
+      -12.5,
+      'a"b\\c\nd\u0001ж😀',
+      [],
+      [1, 'x', null, { a: [] }],
+      {},
+      { a: 1, 'b"': { c: [true, 'ж'] } }
+    ]
+    for (const value of values) {
+      expect(jsonByteLength(value)).toBe(bytes(value))
+    }
+  })
+
+  test('fitJsonToByteBudget', () => {
+    const stack = Array.from({ length: 40 }, (_, i) => `    at fn${i} (file:///app/src/module${i}.js:10:5)`).join('\n')
+    const make = () => new LiteError({
+      name: 'TopError',
+      message: 'top '.repeat(100),
+      code: 'E_TOP',
+      stack,
+      cause: new LiteError({ name: 'CauseError', message: 'cause '.repeat(100), stack, extra: 'c'.repeat(200) } as Record<string, any>),
+      payload: 'p'.repeat(1000),
+      other: 'o'.repeat(100)
+    } as Record<string, any>)
+
+    // Не превышает бюджет - без изменений
+    const params = new SerializationParameters({ includeStack: true, maxStringLength: 4096, maxDepth: 4 })
+    const full = errorToJsonLike(make(), params)
+    expect(fitJsonToByteBudget(JSON.parse(JSON.stringify(full)) as Record<string, any>, new SerializationParameters({ maxBytes: 1_000_000 }))).toStrictEqual(full)
+
+    // 1. Пользовательские поля удаляются первыми, начиная с причины
+    const withoutCustom = bytes(full) - 1000 - 100 - 200
+    const json1 = errorToJsonLike(make(), { includeStack: true, maxStringLength: 4096, maxDepth: 4, maxBytes: withoutCustom + 120 }) as Record<string, any>
+    expect('extra' in json1['cause']).toBe(false)
+    expect('payload' in json1).toBe(false)
+    expect(json1['__meta']).toStrictEqual({ kind: 'object', total: 7, truncated: 2 })
+    expect(json1['stack']).toBe(stack)
+    expect(bytes(json1)).toBeLessThanOrEqual(withoutCustom + 120)
+
+    // 2. Затем стек, 3. затем сообщения
+    const { json, report } = errorToJsonLikeWithReport(make(), { includeStack: true, maxStringLength: 4096, maxDepth: 4, maxBytes: 256, ignoreMeta: true })
+    const top = json as Record<string, any>
+    expect(Object.keys(top)).toStrictEqual(['name', 'message', 'code', 'cause'])
+    expect(top['name']).toBe('TopError')
+    expect(top['code']).toBe('E_TOP')
+    expect(top['message'].length).toBeGreaterThan(MIN_BUDGET_MESSAGE_LENGTH)
+    expect(top['message'].length).toBeLessThan(400)
+    expect(top['cause']['message']).toHaveLength(MIN_BUDGET_MESSAGE_LENGTH)
+    expect('stack' in top['cause']).toBe(false)
+    expect(report.truncated).toStrictEqual(['$.cause', '$'])
+    expect(report.cutStrings).toStrictEqual(['$.cause.stack', '$.stack', '$.cause.message', '$.message'])
+    expect(bytes(top)).toBeLessThanOrEqual(256)
+
+    // Кадры стека сохраняют мета-запись усечения
+    const frames = errorToJsonLike(new LiteError({ name: 'E', stack }), { includeStack: true, stackFrames: true, maxItems: 64, maxBytes: 600 }) as Record<string, any>
+    const last = frames['stack'][frames['stack'].length - 1]
+    expect(last['__meta']['kind']).toBe('array')
+    expect(last['__meta']['total']).toBe(40)
+    expect(bytes(frames)).toBeLessThanOrEqual(600)
+  })
+
+  test('fitJsonToByteBudget enforces the budget', () => {
+    const options = { maxStringLength: 4096, maxItems: 200, maxBytes: 300 }
+
+    // Причина, не являющаяся ошибкой, удаляется последним шагом
+    for (const cause of ['x'.repeat(2000), Array.from({ length: 100 }, (_, i) => `item ${i}`)]) {
+      const { json, report } = errorToJsonLikeWithReport(new LiteError({ name: 'E', message: 'm', cause }), options)
+      expect(json).toStrictEqual({ name: 'E', message: 'm' })
+      expect(report.truncated).toStrictEqual(['$'])
+      expect(bytes(json)).toBeLessThanOrEqual(300)
+    }
+
+    // Сообщение заместителя ошибки при превышении глубины сокращается как сообщение ошибки
+    const deep = errorToJsonLike(new LiteError({ name: 'E', cause: new LiteError({ name: 'C', message: 'c'.repeat(2000) }) }), { ...options, maxDepth: 1 }) as Record<string, any>
+    expect(deep['cause']['__meta']['kind']).toBe('error')
+    expect(deep['cause']['__meta']['message']).toMatch(/^c{32,250}$/)
+    expect(bytes(deep)).toBeLessThanOrEqual(300)
+
+    // Поля `name`, `message` и `code` верхнего уровня сохраняются, даже если результат превышает бюджет
+    const { json: top, report } = errorToJsonLikeWithReport(new LiteError({ name: 'N'.repeat(100), message: 'ж'.repeat(400), code: 'C'.repeat(400), level: 'warn' }), { ...options, maxBytes: 256 })
+    expect(top).toStrictEqual({ name: 'N'.repeat(100), message: 'ж'.repeat(MIN_BUDGET_MESSAGE_LENGTH), code: 'C'.repeat(400) })
+    expect(report.cutStrings).toStrictEqual(['$.message'])
+    expect(report.truncated).toStrictEqual(['$'])
+    expect(bytes(top)).toBeGreaterThan(256)
+  })
+})
@@ -0,0 +1,325 @@
+import type { TNullish, TSerializationReport } from './types.ts'
+import type { SerializationParameters } from './options.ts'
+
+const _DETAIL_KEYS: ReadonlySet<string> = new Set(['name', 'message', 'code', 'stack', 'cause', 'level'])
+
+/**
+ * Минимальная длина сообщения, до которой оно может быть сокращено бюджетом {@link TSerializationOptions.maxBytes}.
+ */
+const MIN_BUDGET_MESSAGE_LENGTH = 32
+
+/**
+ * Размер строки в кодировке UTF-8. Не зависит от `TextEncoder` и `Buffer`.
+ */
+function utf8ByteLength (value: string): number {
+  let length = 0
+  for (let i = 0; i < value.length; ++i) {
+    const code = value.charCodeAt(i)
+    if (code < 0x80) {
+      length += 1
+    }
+    else if (code < 0x800) {
+      length += 2
+    }
+    // Суррогатная пара кодирует один символ из 4 байт
+    else if (code >= 0xD800 && code <= 0xDBFF && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1)
+      if (next >= 0xDC00 && next <= 0xDFFF) {
+        length += 4
+        ++i
+      }
+      else {
+        length += 3
+      }
+    }
+    else {
+      length += 3
+    }
+  }
+  return length
+}
+
+function _stringByteLength (value: string): number {
+  // Кавычки строки и экранирование `"`, `\` и управляющих символов
+  let extra = 2
+  for (let i = 0; i < value.length; ++i) {
+    const code = value.charCodeAt(i)
+    if (code === 34 || code === 92 || code === 8 || code === 9 || code === 10 || code === 12 || code === 13) {
+      extra += 1
+    }
+    else if (code < 0x20) {
+      extra += 5
+    }
+  }
+  return utf8ByteLength(value) + extra
+}
+
+/**
+ * Приблизительный размер результата `JSON.stringify(value)` в кодировке UTF-8 без создания строки.
+ */
+function jsonByteLength (value: unknown): number {
+  switch (typeof value) {
+    case 'string':
+      return _stringByteLength(value)
+    case 'number':
+      return Number.isFinite(value) ? String(value).length : 4
+    case 'boolean':
+      return value ? 4 : 5
+    case 'object': {
+      if (value === null) {
+        return 4
+      }
+      if (Array.isArray(value)) {
+        let length = 2 + Math.max(value.length - 1, 0)
+        for (const item of value) {
+          length += (typeof item === 'undefined') ? 4 : jsonByteLength(item)
+        }
+        return length
+      }
+      let length = 2
+      let count = 0
+      for (const [key, item] of Object.entries(value)) {
+        if (typeof item !== 'undefined') {
+          length += _stringByteLength(key) + 1 + jsonByteLength(item)
+          ++count
+        }
+      }
+      return length + Math.max(count - 1, 0)
+    }
+  }
+  return 0
+}
+
+function _fieldByteLength (key: string, value: unknown): number {
+  // Ключ, двоеточие, значение и запятая
+  return _stringByteLength(key) + 1 + jsonByteLength(value) + 1
+}
+
+function _isObject (value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function _errorChain (json: Record<string, any>): { obj: Record<string, any>, path: string }[] {
+  const chain = [{ obj: json, path: '$' }]
+  let current: unknown = json['cause']
+  let path = '$.cause'
+  while (_isObject(current) && !chain.some((item) => item.obj === current)) {
+    chain.push({ obj: current, path })
+    current = current['cause']
+    path += '.cause'
+  }
+  return chain
+}
+
+/**
+ * Заменяет объект цепочки копией без указанных полей, в том числе в поле `cause` родителя.
+ */
+function _replaceWithout (chain: { obj: Record<string, any>, path: string }[], index: number, keys: ReadonlySet<string>): Record<string, any> {
+  const item = chain[index] as { obj: Record<string, any>, path: string }
+  const obj: Record<string, any> = {}
+  for (const [key, value] of Object.entries(item.obj)) {
+    if (!keys.has(key)) {
+      obj[key] = value
+    }
+  }
+  item.obj = obj
+  if (index > 0) {
+    (chain[index - 1] as { obj: Record<string, any>, path: string }).obj['cause'] = obj
+  }
+  return obj
+}
+
+/**
+ * Обрезает строку, не разделяя суррогатную пару.
+ */
+function _truncate (value: string, length: number): string {
+  const code = value.charCodeAt(length - 1)
+  return value.substring(0, (code >= 0xD800 && code <= 0xDBFF) ? length - 1 : length)
+}
+
+function _isTruncatedMeta (value: unknown, metaFieldName: string): boolean {
+  return _isObject(value) && _isObject(value[metaFieldName]) && ('truncated' in value[metaFieldName])
+}
+
+/**
+ * Удаляет пользовательские поля ошибок цепочки, начиная с самой глубокой причины и последних полей.
+ */
+function _dropCustomFields (chain: { obj: Record<string, any>, path: string }[], size: number, maxBytes: number, params: SerializationParameters, report: null | TSerializationReport): number {
+  const metaFieldName = params.metaFieldName
+  for (let i = chain.length - 1; i >= 0 && size > maxBytes; --i) {
+    const { obj: source, path } = chain[i] as { obj: Record<string, any>, path: string }
+    const keys = Object.keys(source).filter((key) => !_DETAIL_KEYS.has(key) && key !== metaFieldName && key !== params.typeFieldName)
+    const droppedKeys: Set<string> = new Set()
+    for (let j = keys.length - 1; j >= 0 && size > maxBytes; --j) {
+      const key = keys[j] as string
+      size -= _fieldByteLength(key, source[key])
+      droppedKeys.add(key)
+    }
+    const dropped = droppedKeys.size
+    if (dropped === 0) {
+      continue
+    }
+    const obj = _replaceWithout(chain, i, droppedKeys)
+    report?.truncated.push(path)
+    if (!params.ignoreMeta) {
+      const before = (metaFieldName in obj) ? _fieldByteLength(metaFieldName, obj[metaFieldName]) : 0
+      const meta: unknown = obj[metaFieldName]
+      if (_isObject(meta) && meta['kind'] === 'object' && typeof meta['truncated'] === 'number') {
+        obj[metaFieldName] = { ...meta, truncated: meta['truncated'] + dropped }
+      }
+      else {
+        const total = Object.keys(obj).filter((key) => key !== metaFieldName && key !== params.typeFieldName).length + dropped
+        obj[metaFieldName] = { kind: 'object', total, truncated: dropped }
+      }
+      size += _fieldByteLength(metaFieldName, obj[metaFieldName]) - before
+    }
+  }
+  return size
+}
+
+/**
+ * Сокращает стек ошибок цепочки с конца, начиная с самой глубокой причины. Стек, от которого не осталось ни одной
+ * строки или кадра, удаляется.
+ */
+function _trimStacks (chain: { obj: Record<string, any>, path: string }[], size: number, maxBytes: number, params: SerializationParameters, report: null | TSerializationReport): number {
+  const metaFieldName = params.metaFieldName
+  for (let i = chain.length - 1; i >= 0 && size > maxBytes; --i) {
+    const { obj, path } = chain[i] as { obj: Record<string, any>, path: string }
+    const stack: unknown = obj['stack']
+    let items: unknown[]
+    let meta: null | Record<string, any> = null
+    if (typeof stack === 'string') {
+      items = stack.split('\n')
+    }
+    else if (Array.isArray(stack)) {
+      items = stack.filter((item) => !_isTruncatedMeta(item, metaFieldName))
+      const last: unknown = stack[stack.length - 1]
+      meta = _isTruncatedMeta(last, metaFieldName) ? (last as Record<string, any>)[metaFieldName] : null
+    }
+    else {
+      continue
+    }
+    const total = (meta && typeof meta['total'] === 'number') ? meta['total'] : items.length
+    const before = _fieldByteLength('stack', stack)
+    let value: unknown = stack
+    let length = before
+    while (items.length > 0 && size - before + length > maxBytes) {
+      items.pop()
+      if (typeof stack === 'string') {
+        value = items.join('\n')
+      }
+      else {
+        value = (params.ignoreMeta || items.length === 0)
+          ? items
+          : [...items, { [metaFieldName]: { kind: 'array', total, truncated: total - items.length } }]
+      }
+      length = _fieldByteLength('stack', value)
+    }
+    if (items.length === 0) {
+      _replaceWithout(chain, i, new Set(['stack']))
+      size -= before
+    }
+    else {
+      obj['stack'] = value
+      size += length - before
+    }
+    report?.cutStrings.push(`${path}.stack`)
+  }
+  return size
+}
+
+/**
+ * Сокращает сообщения ошибок цепочки до {@link MIN_BUDGET_MESSAGE_LENGTH}, начиная с самой глубокой причины.
+ * Заместитель ошибки при превышении глубины хранит сообщение в метаинформации `{ kind: 'error', message }`.
+ */
+function _shortenMessages (chain: { obj: Record<string, any>, path: string }[], size: number, maxBytes: number, params: SerializationParameters, report: null | TSerializationReport): number {
+  const metaFieldName = params.metaFieldName
+  for (let i = chain.length - 1; i >= 0 && size > maxBytes; --i) {
+    const { obj, path } = chain[i] as { obj: Record<string, any>, path: string }
+    const meta: unknown = obj[metaFieldName]
+    const holder = (typeof obj['message'] !== 'string' && _isObject(meta) && meta['kind'] === 'error') ? { ...meta } : obj
+    const message: unknown = holder['message']
+    if (typeof message !== 'string' || message.length <= MIN_BUDGET_MESSAGE_LENGTH) {
+      continue
+    }
+    // Каждый символ занимает не менее одного байта
+    const value = _truncate(message, Math.max(MIN_BUDGET_MESSAGE_LENGTH, message.length - (size - maxBytes)))
+    size += jsonByteLength(value) - jsonByteLength(message)
+    holder['message'] = value
+    if (holder === obj) {
+      report?.cutStrings.push(`${path}.message`)
+    }
+    else {
+      obj[metaFieldName] = holder
+      report?.cutStrings.push(`${path}.${metaFieldName}.message`)
+    }
+  }
+  return size
+}
+
+/**
+ * Последний шаг бюджета: удаляет оставшиеся поля ошибок цепочки, кроме `name`, `message` и `code`, начиная с самой
+ * глубокой причины. Эти поля сохраняются всегда, даже если без них результат уложился бы в бюджет.
+ */
+function _dropRemaining (chain: { obj: Record<string, any>, path: string }[], maxBytes: number, report: null | TSerializationReport): void {
+  const root = chain[0] as { obj: Record<string, any>, path: string }
+  let size = jsonByteLength(root.obj)
+  for (let i = chain.length - 1; i >= 0 && size > maxBytes; --i) {
+    const { obj, path } = chain[i] as { obj: Record<string, any>, path: string }
+    const keys = Object.keys(obj).filter((key) => key !== 'name' && key !== 'message' && key !== 'code')
+    const droppedKeys: Set<string> = new Set()
+    for (let j = keys.length - 1; j >= 0 && size > maxBytes; --j) {
+      const key = keys[j] as string
+      size -= _fieldByteLength(key, obj[key])
+      droppedKeys.add(key)
+    }
+    if (droppedKeys.size > 0) {
+      _replaceWithout(chain, i, droppedKeys)
+      report?.truncated.push(path)
+      size = jsonByteLength(root.obj)
+    }
+  }
+}
+
+/**
+ * Приводит результат сериализации к бюджету {@link TSerializationOptions.maxBytes}. Бюджет применяется к готовому
+ * результату после обхода, а не отслеживается во время сериализации, поэтому не сокращает работу сериализатора.
+ *
+ * Если приблизительный размер JSON превышает бюджет, данные ошибки и цепочки `cause` отбрасываются по приоритету:
+ *
+ *  1. Пользовательские поля, начиная с самой глубокой причины.
+ *  2. Строки или кадры стека с конца.
+ *  3. Окончание сообщений, но не короче {@link MIN_BUDGET_MESSAGE_LENGTH}.
+ *  4. Остальные поля, кроме `name`, `message` и `code`, включая `cause` без ошибки.
+ *
+ * Поля `name`, `message` и `code` верхнего уровня сохраняются всегда, поэтому результат может превысить бюджет, если
+ * их не удается сократить. Объекты цепочки с удаленными полями заменяются копиями, поэтому используйте возвращаемое
+ * значение.
+ *
+ * @param json   Результат сериализации.
+ * @param params Параметры сериализации с установленным `maxBytes`.
+ * @param report Необязательный отчет, в который записываются усеченные пути.
+ */
+function fitJsonToByteBudget<T extends Record<string, any>> (json: T, params: SerializationParameters, report?: TNullish | TSerializationReport): T {
+  const maxBytes = params.maxBytes
+  if (maxBytes === null) {
+    return json
+  }
+  let size = jsonByteLength(json)
+  if (size <= maxBytes) {
+    return json
+  }
+  const chain = _errorChain(json)
+  size = _dropCustomFields(chain, size, maxBytes, params, report ?? null)
+  size = _trimStacks(chain, size, maxBytes, params, report ?? null)
+  _shortenMessages(chain, size, maxBytes, params, report ?? null)
+  _dropRemaining(chain, maxBytes, report ?? null)
+  return (chain[0] as { obj: Record<string, any>, path: string }).obj as T
+}
+
+export {
+  MIN_BUDGET_MESSAGE_LENGTH,
+  utf8ByteLength,
+  jsonByteLength,
+  fitJsonToByteBudget
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest'
+import { LIB_ID } from './constants.ts'
+import { BaseError, LiteError } from './errors.ts'
+import { hasCode } from './chain.ts'
+//
+import {
+  catalogFields,
+  defineErrorCatalog,
+  resetErrorCatalogCodes
+} from './catalog.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+describe('catalog', () => {
+  test('factories', () => {
+    const errors = defineErrorCatalog({
+      E_NOT_FOUND: { message: 'Resource {kind} {id} not found', level: 'warn', fields: catalogFields<{ table: string, retry?: boolean }>({ retry: false }) },
+      E_TIMEOUT: { message: 'Request timed out', name: 'TimeoutError' }
+    }, { codes: new Set() })
+
+    const cause = new Error('no rows')
+    const notFound = errors.E_NOT_FOUND({ kind: 'user', id: 42, table: 'users', cause })
+    expect(notFound).toBeInstanceOf(LiteError)
+    expect(notFound.detail).toStrictEqual({
+      name: 'LiteError',
+      retry: false,
+      kind: 'user',
+      id: 42,
+      table: 'users',
+      cause,
+      code: 'E_NOT_FOUND',
+      message: 'Resource user 42 not found',
+      level: 'warn'
+    })
+    const table: string = notFound.detail.table
+    expect(table).toBe('users')
+    expect(errors.E_NOT_FOUND.code).toBe('E_NOT_FOUND')
+    expect(hasCode(notFound, errors.E_NOT_FOUND.code)).toBe(true)
+
+    const timeout = errors.E_TIMEOUT()
+    expect(timeout.detail).toStrictEqual({ name: 'TimeoutError', code: 'E_TIMEOUT', message: 'Request timed out' })
+    expect(timeout.name).toBe('TimeoutError')
+
+    // @ts-expect-error Отсутствует обязательный параметр шаблона id
+    expect(errors.E_NOT_FOUND({ kind: 'user', table: 'users' }).detail.message).toBe('Resource user {id} not found')
+    // @ts-expect-error Неверный тип поля table
+    errors.E_NOT_FOUND({ kind: 'user', id: 1, table: 1 })
+    // @ts-expect-error Неизвестный код
+    expect(errors.E_UNKNOWN).toBe(undefined)
+  })
+
+  test('errorClass', () => {
+    const errors = defineErrorCatalog({ E_APP: { message: 'App failed' } }, { errorClass: AppError, codes: new Set() })
+    const error: BaseError<any> = errors.E_APP()
+    expect(error).toBeInstanceOf(AppError)
+    expect(error.message).toBe('App failed')
+  })
+
+  test('duplicate codes', () => {
+    defineErrorCatalog({ E_CATALOG_TEST: { message: 'first' } })
+    expect(() => defineErrorCatalog({ E_CATALOG_TEST: { message: 'second' } })).toThrow('The error code "E_CATALOG_TEST" is already defined')
+    const codes = new Set(['E_A'])
+    expect(() => defineErrorCatalog({ E_B: { message: 'b' }, E_A: { message: 'a' } }, { codes })).toThrow('"E_A"')
+    // Каталог с повтором не регистрирует ни одного кода
+    expect(codes.has('E_B')).toBe(false)
+    expect(() => defineErrorCatalog({ E_C: {} as any }, { codes })).toThrow('The entry "E_C" must have a string message')
+  })
+
+  test('resetErrorCatalogCodes', () => {
+    // Общее множество кодов доступно другим копиям библиотеки через глобальный символ
+    const defined: unknown = Reflect.get(globalThis, Symbol.for(`${LIB_ID}-error-catalog-codes`))
+    expect(defined instanceof Set && defined.has('E_CATALOG_TEST')).toBe(true)
+
+    defineErrorCatalog({ E_RELOAD: { message: 'first' }, E_KEEP: { message: 'keep' } })
+    resetErrorCatalogCodes(['E_RELOAD'])
+    expect(defineErrorCatalog({ E_RELOAD: { message: 'second' } }).E_RELOAD().detail.message).toBe('second')
+    expect(() => defineErrorCatalog({ E_KEEP: { message: 'keep' } })).toThrow('"E_KEEP"')
+    resetErrorCatalogCodes()
+    expect(() => defineErrorCatalog({ E_KEEP: { message: 'keep' }, E_CATALOG_TEST: { message: 'again' } })).not.toThrow()
+  })
+})
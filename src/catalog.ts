@@ -0,0 +1,209 @@
+import type {
+  TNullish,
+  TErrorLevel,
+  IErrorDetail
+} from './types.ts'
+import { LIB_ID } from './constants.ts'
+import { LiteError, BaseError } from './errors.ts'
+import { type TTemplateParams, interpolate } from './template.ts'
+
+declare const _FIELDS_TYPE: unique symbol
+
+/**
+ * Описание пользовательских полей записи каталога, созданное {@link catalogFields()}. Тип полей существует только на
+ * уровне типов, во время выполнения хранятся лишь значения по умолчанию.
+ */
+type TCatalogFields<T extends Record<string, any>> = {
+  readonly defaults: Partial<T>
+  readonly [_FIELDS_TYPE]?: T
+}
+
+/**
+ * Запись каталога ошибок {@link defineErrorCatalog()}.
+ */
+type TErrorCatalogEntry = {
+  /**
+   * Шаблон сообщения с подстановками `{name}`. Каждая подстановка становится обязательным параметром фабрики.
+   */
+  message: string
+  /**
+   * Уровень ошибки.
+   */
+  level?: TNullish | TErrorLevel
+  /**
+   * Имя ошибки `detail.name`. По умолчанию имя класса ошибки.
+   */
+  name?: TNullish | string
+  /**
+   * Пользовательские поля деталей {@link catalogFields()}.
+   */
+  fields?: TNullish | TCatalogFields<any>
+}
+
+type TCatalogFieldsOf<E extends TErrorCatalogEntry> = E['fields'] extends TCatalogFields<infer F> ? F : Record<never, never>
+
+/**
+ * Параметры фабрики записи каталога: подстановки шаблона, пользовательские поля и необязательная причина.
+ */
+type TCatalogParams<E extends TErrorCatalogEntry> = TTemplateParams<E['message']> & TCatalogFieldsOf<E> & { cause?: unknown }
+
+/**
+ * Детали ошибки, созданной фабрикой записи каталога.
+ */
+type TCatalogDetail<K extends string, E extends TErrorCatalogEntry> = IErrorDetail & TTemplateParams<E['message']> & TCatalogFieldsOf<E> & {
+  code: K
+  message: string
+}
+
+/**
+ * Фабрика ошибок записи каталога. Параметры можно не передавать, если шаблон и поля не содержат обязательных значений.
+ */
+type TCatalogFactory<K extends string, E extends TErrorCatalogEntry, R> = {
+  (...args: Record<never, never> extends TCatalogParams<E> ? [params?: TCatalogParams<E>] : [params: TCatalogParams<E>]): R
+  /**
+   * Код ошибок фабрики, например для {@link hasCode()}.
+   */
+  readonly code: K
+}
+
+/**
+ * Класс ошибок каталога: {@link LiteError}, {@link BaseError} или их наследник.
+ */
+type TCatalogErrorClass = new (detail: any) => LiteError<any> | BaseError<any>
+
+/**
+ * Каталог фабрик ошибок, ключи которого являются кодами ошибок.
+ */
+type TErrorCatalog<E extends Record<string, TErrorCatalogEntry>, C extends TCatalogErrorClass> = {
+  readonly [K in keyof E & string]: TCatalogFactory<K, E[K], InstanceType<C> extends BaseError<any> ? BaseError<TCatalogDetail<K, E[K]>> : LiteError<TCatalogDetail<K, E[K]>>>
+}
+
+/**
+ * Опции {@link defineErrorCatalog()}.
+ */
+type TErrorCatalogOptions<C extends TCatalogErrorClass> = {
+  /**
+   * Класс создаваемых ошибок. По умолчанию {@link LiteError}.
+   */
+  errorClass?: TNullish | C
+  /**
+   * Множество уже определенных кодов для проверки повторов. По умолчанию общее множество всех каталогов, определенных
+   * без этой опции, в том числе в других копиях библиотеки.
+   */
+  codes?: TNullish | Set<string>
+}
+
+// Общее множество кодов хранится глобально, чтобы повторы находились и между копиями библиотеки в разных сборках
+const _DEFINED_CODES_KEY = Symbol.for(`${LIB_ID}-error-catalog-codes`)
+
+function _definedCodes (): Set<string> {
+  const codes: unknown = Reflect.get(globalThis, _DEFINED_CODES_KEY)
+  if (codes instanceof Set) {
+    return codes as Set<string>
+  }
+  const created: Set<string> = new Set()
+  Reflect.defineProperty(globalThis, _DEFINED_CODES_KEY, { configurable: true, value: created })
+  return created
+}
+
+/**
+ * Описывает тип пользовательских полей записи каталога и, при необходимости, их значения по умолчанию. Поля со
+ * значениями по умолчанию объявляйте необязательными, чтобы их можно было не передавать фабрике.
+ *
+ * @param defaults Значения полей по умолчанию.
+ */
+function catalogFields<T extends Record<string, any>> (defaults?: TNullish | Partial<T>): TCatalogFields<T> {
+  return { defaults: defaults ?? {} }
+}
+
+/**
+ * Определяет каталог кодов ошибок и возвращает строго типизированные фабрики. Параметры каждой фабрики выводятся из
+ * подстановок шаблона `message` и полей {@link catalogFields()}, а создаваемая ошибка получает `code`, `level` и
+ * сообщение с подставленными значениями.
+ *
+ * Коды проверяются на уникальность среди всех каталогов.
+ *
+ * @param entries Записи каталога, ключи которых являются кодами ошибок.
+ * @param options Опции {@link TErrorCatalogOptions}.
+ * @throws Прерывает выполнение, если код уже определен или запись не содержит строкового шаблона `message`.
+ *
+ * @example
+ * ```ts
+ * const errors = defineErrorCatalog({
+ *   E_NOT_FOUND: { message: 'Resource {id} not found', level: 'warn', fields: catalogFields<{ table: string }>() }
+ * })
+ * throw errors.E_NOT_FOUND({ id: 42, table: 'users' })
+ * ```
+ */
+function defineErrorCatalog<const E extends Record<string, TErrorCatalogEntry>, C extends TCatalogErrorClass = typeof LiteError> (entries: E, options?: TNullish | TErrorCatalogOptions<C>): TErrorCatalog<E, C> {
+  const codes = options?.codes ?? _definedCodes()
+  const keys = Object.keys(entries)
+  for (const code of keys) {
+    if (codes.has(code)) {
+      throw new BaseError({ message: `Failed to define an error catalog. The error code "${code}" is already defined.` })
+    }
+    if (typeof entries[code]?.message !== 'string') {
+      throw new BaseError({ message: `Failed to define an error catalog. The entry "${code}" must have a string message.` })
+    }
+  }
+
+  const ErrorClass: TCatalogErrorClass = options?.errorClass ?? LiteError
+  const catalog: Record<string, unknown> = {}
+  for (const code of keys) {
+    const { message, level, name, fields } = entries[code] as TErrorCatalogEntry
+    const defaults = fields?.defaults
+    const factory = (params?: TNullish | Record<string, unknown>): LiteError<any> | BaseError<any> => {
+      const detail: Record<string, unknown> = { ...defaults, ...params }
+      const text = interpolate(message, detail)
+      if (name) {
+        detail['name'] = name
+      }
+      detail['code'] = code
+      detail['message'] = text
+      if (level) {
+        detail['level'] = level
+      }
+      return new ErrorClass(detail)
+    }
+    Object.defineProperty(factory, 'code', { enumerable: true, value: code })
+    catalog[code] = factory
+    codes.add(code)
+  }
+  return Object.freeze(catalog) as TErrorCatalog<E, C>
+}
+
+/**
+ * Удаляет коды из общего множества кодов {@link defineErrorCatalog()}, позволяя определить их повторно, например при
+ * горячей перезагрузке модуля или повторном импорте в тестах.
+ *
+ * @param codes Удаляемые коды. По умолчанию удаляются все коды.
+ *
+ * @example
+ * ```ts
+ * import.meta.hot?.dispose(() => resetErrorCatalogCodes(Object.keys(errors)))
+ * ```
+ */
+function resetErrorCatalogCodes (codes?: TNullish | Iterable<string>): void {
+  const defined = _definedCodes()
+  if (!codes) {
+    defined.clear()
+    return
+  }
+  for (const code of codes) {
+    defined.delete(code)
+  }
+}
+
+export {
+  type TCatalogFields,
+  type TErrorCatalogEntry,
+  type TCatalogParams,
+  type TCatalogDetail,
+  type TCatalogFactory,
+  type TCatalogErrorClass,
+  type TErrorCatalog,
+  type TErrorCatalogOptions,
+  catalogFields,
+  defineErrorCatalog,
+  resetErrorCatalogCodes
+}
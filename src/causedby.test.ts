@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError, ErrorCollection } from './errors.ts'
+import { TextFormatter } from './formatter.ts'
+import { errorToJsonLike, errorToString } from './serialization.ts'
+//
+import {
+  writeCausedByInto,
+  errorToCausedByString
+} from './causedby.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+function render (value: Record<string, any> | any[]): string {
+  let result = ''
+  writeCausedByInto(value, (chunk) => { result += chunk })
+  return result
+}
+
+describe('causedby', () => {
+  test('frames in common', () => {
+    const json = {
+      name: 'AppError',
+      code: 'E0058',
+      message: 'Request failed',
+      status: 503,
+      stack: '    at handler (/app/api.js:20:7)\n    at main (/app/main.js:3:1)',
+      cause: {
+        name: 'DbError',
+        message: 'Connection refused',
+        stack: '    at connect (/app/db.js:8:11)\n    at handler (/app/api.js:20:7)\n    at main (/app/main.js:3:1)',
+        cause: 'ECONNREFUSED'
+      }
+    }
+    expect(render(json)).toBe([
+      'AppError [E0058]: Request failed',
+      '    status: 503',
+      '    at handler (/app/api.js:20:7)',
+      '    at main (/app/main.js:3:1)',
+      'Caused by: DbError: Connection refused',
+      '    at connect (/app/db.js:8:11)',
+      '    ... 2 more frames in common',
+      'Caused by: ECONNREFUSED'
+    ].join('\n'))
+  })
+
+  test('stack frames and placeholders', () => {
+    const frame = { functionName: 'main', file: 'a.js', line: 1, column: 1, isNative: false, isAsync: false, isEval: false }
+    const json = {
+      name: 'A',
+      stack: [frame],
+      cause: {
+        name: 'B',
+        // Все кадры совпадают, но один остается в выводе
+        stack: [frame, { __meta: { kind: 'array', total: 3, truncated: 2 } }],
+        cause: { __meta: { kind: 'error', name: 'C', message: 'deep' } }
+      }
+    }
+    expect(render(json)).toBe([
+      'A',
+      '    at main (a.js:1:1)',
+      'Caused by: B',
+      '    at main (a.js:1:1)',
+      '    ... 2 more',
+      'Caused by: C: deep'
+    ].join('\n'))
+    expect(render({ name: 'A', cause: { __meta: { kind: 'circular', ref: '$' } } })).toBe('A\nCaused by: [Circular $]')
+  })
+
+  test('metaFieldName and truncated frames', () => {
+    const frame = { functionName: 'main', file: 'a.js', line: 1, column: 1, isNative: false, isAsync: false, isEval: false }
+    // Поле с другим именем не является заместителем
+    expect(render({ name: 'A', cause: { $meta: { kind: 'error', name: 'B' } } })).toBe('A\nCaused by: {"$meta":{"kind":"error","name":"B"}}')
+    let result = ''
+    writeCausedByInto({ name: 'A', cause: { $meta: { kind: 'error', name: 'B' } } }, (chunk) => { result += chunk }, '$meta')
+    expect(result).toBe('A\nCaused by: B')
+
+    const error = new AppError({ message: 'top', cause: new TypeError('middle', { cause: new RangeError('root') }) })
+    expect(errorToCausedByString(error, { metaFieldName: '$meta' })).toBe('AppError: top\nCaused by: TypeError: middle\nCaused by: RangeError: root')
+    expect(errorToString(error, { formatter: new TextFormatter({ causedBy: true }), metaFieldName: '$meta' }))
+      .toBe('AppError: top\nCaused by: TypeError: middle\nCaused by: RangeError: root')
+
+    // Маркеры сокращенных стеков совпадают, но последние кадры неизвестны
+    const truncated = { $meta: { kind: 'array', total: 5, truncated: 3 } }
+    result = ''
+    writeCausedByInto({
+      name: 'A',
+      stack: [frame, frame, truncated],
+      cause: { name: 'B', stack: [frame, frame, truncated] }
+    }, (chunk) => { result += chunk }, '$meta')
+    expect(result).toBe([
+      'A',
+      '    at main (a.js:1:1)',
+      '    at main (a.js:1:1)',
+      '    ... 3 more',
+      'Caused by: B',
+      '    at main (a.js:1:1)',
+      '    at main (a.js:1:1)',
+      '    ... 3 more'
+    ].join('\n'))
+  })
+
+  test('ErrorLike, Error and AggregateError', () => {
+    const error = new AppError({ message: 'top', cause: new TypeError('middle', { cause: new RangeError('root') }) })
+    expect(errorToCausedByString(error, { maxDepth: 4 })).toBe('AppError: top\nCaused by: TypeError: middle\nCaused by: RangeError: root')
+    const aggregate = new AggregateError([new TypeError('a'), 'b'], 'many', { cause: new Error('why') })
+    expect(errorToCausedByString(aggregate, { maxDepth: 4 })).toBe([
+      'AggregateError: many',
+      '    [0] TypeError: a',
+      '    [1] b',
+      'Caused by: Error: why'
+    ].join('\n'))
+    const stacked = errorToCausedByString(new Error('outer', { cause: new Error('inner') }), { includeStack: true })
+    expect(stacked).toMatch(/^Error: outer\n {4}at /)
+    expect(stacked).toMatch(/\nCaused by: Error: inner\n {4}at .*\n {4}\.\.\. \d+ more frames in common$/)
+  })
+
+  test('AggregateError serialization', () => {
+    const aggregate = new AggregateError([new TypeError('a'), new Error('b')], 'many')
+    expect(errorToJsonLike(aggregate, { maxDepth: 3 })).toStrictEqual({
+      name: 'AggregateError',
+      message: 'many',
+      errors: [{ name: 'TypeError', message: 'a' }, { name: 'Error', message: 'b' }]
+    })
+    expect(errorToJsonLike(aggregate, { exclude: 'errors' })).toStrictEqual({ name: 'AggregateError', message: 'many' })
+    // Поле, не вошедшее из-за лимита, учитывается в метаинформации
+    expect(errorToJsonLike(aggregate, { maxItems: 2 })).toStrictEqual({
+      name: 'AggregateError',
+      message: 'many',
+      __meta: { kind: 'object', total: 3, truncated: 1 }
+    })
+  })
+
+  test('TextFormatter causedBy', () => {
+    const formatter = new TextFormatter({ causedBy: true })
+    const error = new AppError({ message: 'top', cause: new TypeError('root') })
+    expect(errorToString(error, { formatter })).toBe('AppError: top\nCaused by: TypeError: root')
+    expect(new ErrorCollection([error, 'text']).toStringWith({ formatter, maxDepth: 3 })).toBe([
+      '[0] AppError: top',
+      'Caused by: TypeError: root',
+      '[1] LiteError',
+      'Caused by: text'
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,245 @@
+import type {
+  TNullish,
+  TJsonObject,
+  TJsonArray,
+  TJsonLike
+} from './types.ts'
+import {
+  type TSerializationOptions,
+  type SerializationParameters,
+  DEFAULT_SERIALIZATION_OPTIONS,
+  ensureSerializationParameters
+} from './options.ts'
+import { errorToJsonLike } from './serialization.ts'
+import { type TStackFrame, formatStackFrame } from './stack.ts'
+import { type TWriterSink, StringSink } from './writer.ts'
+
+const _INDENT = '    '
+const _STANDARD_KEYS: ReadonlySet<string> = new Set(['name', 'message', 'code', 'stack', 'cause', 'errors'])
+
+function _isObject (value: TJsonLike | undefined): value is TJsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Заместитель `{ __meta: { kind, ... } }` - единственное поле объекта с метаинформацией.
+ *
+ * @param metaFieldName Имя поля метаданных {@link TSerializationOptions.metaFieldName}.
+ */
+function _placeholder (value: TJsonObject, metaFieldName: string): null | TJsonObject {
+  const keys = Object.keys(value)
+  if (keys.length !== 1 || keys[0] !== metaFieldName) {
+    return null
+  }
+  const meta = value[metaFieldName]
+  return (_isObject(meta) && typeof meta['kind'] === 'string') ? meta : null
+}
+
+function _isErrorNode (value: TJsonLike | undefined, metaFieldName: string): value is TJsonObject {
+  if (!_isObject(value)) {
+    return false
+  }
+  if (typeof value['name'] === 'string' || typeof value['message'] === 'string') {
+    return true
+  }
+  const meta = _placeholder(value, metaFieldName)
+  return meta !== null && (meta['kind'] === 'error' || meta['kind'] === 'circular')
+}
+
+function _scalar (value: TJsonLike): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function _frames (stack: TJsonLike | undefined, metaFieldName: string): string[] {
+  if (typeof stack === 'string') {
+    return stack.split('\n').map((line) => line.trim()).filter((line) => line.length > 0)
+  }
+  if (!Array.isArray(stack)) {
+    return []
+  }
+  const frames: string[] = []
+  for (const item of stack) {
+    const meta = _isObject(item) ? _placeholder(item, metaFieldName) : null
+    if (meta && typeof meta['truncated'] === 'number') {
+      frames.push(`... ${meta['truncated']} more`)
+    }
+    else if (_isObject(item)) {
+      frames.push(formatStackFrame(item as Partial<TStackFrame>))
+    }
+    else if (item !== null) {
+      frames.push(_scalar(item))
+    }
+  }
+  return frames
+}
+
+/**
+ * Сокращен ли массив кадров {@link TSerializationOptions.stackFrames} заместителем `{ kind: 'array', truncated }`.
+ * Последние кадры такого стека отсутствуют, и сравнивать их с кадрами другой ошибки нельзя.
+ */
+function _isTruncatedFrames (stack: TJsonLike | undefined, metaFieldName: string): boolean {
+  if (!Array.isArray(stack) || stack.length === 0) {
+    return false
+  }
+  const last = stack[stack.length - 1]
+  return _isObject(last) && typeof _placeholder(last, metaFieldName)?.['truncated'] === 'number'
+}
+
+/**
+ * Количество последних кадров, совпадающих с кадрами родительской ошибки.
+ */
+function _commonFrames (frames: readonly string[], parentFrames: readonly string[]): number {
+  let count = 0
+  while (count < frames.length && count < parentFrames.length && frames[frames.length - 1 - count] === parentFrames[parentFrames.length - 1 - count]) {
+    ++count
+  }
+  // Хотя бы один собственный кадр остается в выводе
+  return count === frames.length ? count - 1 : count
+}
+
+class _ChainLines {
+  protected readonly _sink: TWriterSink
+  protected _first = true
+  readonly metaFieldName: string
+
+  constructor(sink: TWriterSink, metaFieldName: string) {
+    this._sink = sink
+    this.metaFieldName = metaFieldName
+  }
+
+  line (value: string): void {
+    this._sink(this._first ? value : `\n${value}`)
+    this._first = false
+  }
+}
+
+function _writeSection (node: TJsonObject, lines: _ChainLines, prefix: string, label: string, parentFrames: readonly string[]): void {
+  const metaFieldName = lines.metaFieldName
+  const meta = _placeholder(node, metaFieldName)
+  if (meta && meta['kind'] === 'circular') {
+    lines.line(`${prefix}${label}[Circular ${typeof meta['ref'] === 'string' ? meta['ref'] : ''}]`)
+    return
+  }
+  // Ошибка, превысившая глубину, записана заместителем `{ __meta: { kind: 'error', name, message } }`
+  const source = (meta && meta['kind'] === 'error') ? meta : node
+  let header = typeof source['name'] === 'string' ? source['name'] : 'Error'
+  if (typeof source['code'] === 'string' || typeof source['code'] === 'number') {
+    header += ` [${source['code']}]`
+  }
+  if (typeof source['message'] === 'string' && source['message'].length > 0) {
+    header += `: ${source['message']}`
+  }
+  const [first, ...rest] = header.split('\n')
+  lines.line(`${prefix}${label}${first as string}`)
+  for (const line of rest) {
+    lines.line(`${prefix}${line}`)
+  }
+  if (source !== node) {
+    return
+  }
+
+  const indent = prefix + _INDENT
+  for (const [key, value] of Object.entries(node)) {
+    if (!_STANDARD_KEYS.has(key)) {
+      lines.line(`${indent}${key}: ${_scalar(value)}`)
+    }
+  }
+  const frames = _frames(node['stack'], metaFieldName)
+  // Сокращенный стек не участвует в сравнении ни с родительской ошибкой, ни с причинами
+  const comparable = _isTruncatedFrames(node['stack'], metaFieldName) ? [] : frames
+  const common = (parentFrames.length > 0 && comparable.length > 0) ? _commonFrames(frames, parentFrames) : 0
+  for (let i = 0; i < frames.length - common; ++i) {
+    lines.line(`${indent}${frames[i] as string}`)
+  }
+  if (common > 0) {
+    lines.line(`${indent}... ${common} more frames in common`)
+  }
+
+  // Ошибки AggregateError выводятся вложенными секциями, кадры сравниваются с агрегирующей ошибкой
+  const errors = node['errors']
+  if (Array.isArray(errors)) {
+    for (let i = 0; i < errors.length; ++i) {
+      const item = errors[i] as TJsonLike
+      const truncated = _isObject(item) ? _placeholder(item, metaFieldName)?.['truncated'] : undefined
+      if (_isErrorNode(item, metaFieldName)) {
+        _writeSection(item, lines, indent, `[${i}] `, comparable)
+      }
+      else if (typeof truncated === 'number') {
+        lines.line(`${indent}... ${truncated} more errors`)
+      }
+      else {
+        lines.line(`${indent}[${i}] ${_scalar(item)}`)
+      }
+    }
+  }
+
+  const cause = node['cause']
+  if (_isErrorNode(cause, metaFieldName)) {
+    _writeSection(cause, lines, prefix, 'Caused by: ', comparable)
+  }
+  else if (typeof cause !== 'undefined') {
+    lines.line(`${prefix}Caused by: ${_scalar(cause)}`)
+  }
+}
+
+/**
+ * Записывает результат сериализации в формате цепочки `Caused by:`, как это делают JVM и Python. Каждая ошибка
+ * цепочки `cause` выводится отдельной секцией без увеличения отступа, а последние кадры стека, совпадающие с кадрами
+ * предыдущей ошибки, заменяются строкой `... N more frames in common`. Ошибки `AggregateError` выводятся вложенными
+ * секциями `[0] ...`.
+ *
+ * Кадры сравниваются в том виде, в котором они попали в результат. Строка стека, сокращенная до
+ * {@link TSerializationOptions.maxStringLength}, теряет последние кадры, поэтому общие кадры такого стека не
+ * находятся. Массив кадров {@link TSerializationOptions.stackFrames}, сокращенный до `maxItems`, в сравнении не
+ * участвует.
+ *
+ * @param value         Результат {@link errorToJsonLike()} или массив ошибок {@link ErrorCollection.toJsonWith()}.
+ * @param sink          Приемник фрагментов.
+ * @param metaFieldName Имя поля метаданных {@link TSerializationOptions.metaFieldName}, с которым выполнялась
+ *                      сериализация. По умолчанию `'__meta'`.
+ *
+ * @example
+ * ```
+ * AppError [E0058]: Request failed
+ *     at handler (/app/api.js:20:7)
+ *     at main (/app/main.js:3:1)
+ * Caused by: DbError: Connection refused
+ *     at connect (/app/db.js:8:11)
+ *     ... 1 more frames in common
+ * ```
+ */
+function writeCausedByInto (value: TJsonObject | TJsonArray, sink: TWriterSink, metaFieldName?: TNullish | string): void {
+  const lines = new _ChainLines(sink, (typeof metaFieldName === 'string' && metaFieldName.length > 0) ? metaFieldName : DEFAULT_SERIALIZATION_OPTIONS.metaFieldName)
+  if (!Array.isArray(value)) {
+    _writeSection(value, lines, '', '', [])
+    return
+  }
+  for (let i = 0; i < value.length; ++i) {
+    const item = value[i] as TJsonLike
+    if (_isObject(item)) {
+      _writeSection(item, lines, '', `[${i}] `, [])
+    }
+    else {
+      lines.line(`[${i}] ${_scalar(item)}`)
+    }
+  }
+}
+
+/**
+ * Приводит любое значение к тексту в формате цепочки `Caused by:` {@link writeCausedByInto()}. Сериализация
+ * выполняется {@link errorToJsonLike()} с теми же ограничениями, что и для `toStringWith()`.
+ *
+ * @param anyValue Предполагаемая ошибка: {@link ErrorLike}, {@link Error}, `AggregateError` или любое значение.
+ * @param options  Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
+ */
+function errorToCausedByString (anyValue: any, options?: TNullish | TSerializationOptions | SerializationParameters): string {
+  const params = ensureSerializationParameters(options)
+  const sink = new StringSink()
+  writeCausedByInto(errorToJsonLike(anyValue, params) as TJsonObject, sink.write, params.metaFieldName)
+  return sink.value
+}
+
+export {
+  writeCausedByInto,
+  errorToCausedByString
+}
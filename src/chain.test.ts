@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'vitest'
+import { ERROR_LIKE_MARKER } from './constants.ts'
+import { ErrorLike, BaseError, LiteError } from './errors.ts'
+import { ErrorRegistry } from './registry.ts'
+//
+import {
+  iterateCauses,
+  iterateCauseChain,
+  rootCause,
+  findCause,
+  hasCode,
+  is,
+  as
+} from './chain.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+class HttpError extends BaseError<Record<string, any>> {}
+
+describe('chain', () => {
+  test('iterateCauses', () => {
+    const root = new RangeError('root')
+    const a = new TypeError('a')
+    const aggregate = new AggregateError([a, 'b'], 'many', { cause: root })
+    const error = new AppError({ message: 'top', cause: new Error('middle', { cause: aggregate }) })
+    expect([...iterateCauses(error)].map((item) => item instanceof Error ? item.message : item))
+      .toStrictEqual(['top', 'middle', 'many', 'root', 'a', 'b'])
+    expect([...iterateCauses(null)]).toStrictEqual([])
+    expect([...iterateCauses('text')]).toStrictEqual(['text'])
+  })
+
+  test('cycles', () => {
+    const a = new Error('a')
+    const b = new LiteError({ message: 'b', cause: a })
+    Object.assign(a, { cause: b })
+    expect([...iterateCauses(a)]).toStrictEqual([a, b])
+    expect(rootCause(a)).toBe(b)
+    expect(is(a, new Error('c'))).toBe(false)
+  })
+
+  test('iterateCauseChain', () => {
+    const a = new TypeError('a')
+    const root = new RangeError('root')
+    const error = new AppError({ message: 'top', cause: new AggregateError([a], 'many', { cause: root }) })
+    expect([...iterateCauseChain(error)].map((item) => (item as Error).message)).toStrictEqual(['top', 'many', 'root'])
+    expect([...iterateCauseChain(new Error('x', { cause: 'reason' }))].at(-1)).toBe('reason')
+  })
+
+  test('rootCause', () => {
+    const root = new RangeError('root')
+    expect(rootCause(new AppError({ cause: new Error('x', { cause: root }) }))).toBe(root)
+    expect(rootCause(root)).toBe(root)
+    expect(rootCause(new Error('x', { cause: 'reason' }))).toBe('reason')
+    expect(rootCause(undefined)).toBe(undefined)
+  })
+
+  test('findCause, hasCode, is and as', () => {
+    const sentinel = new Error('not found')
+    const http = new HttpError({ message: 'http', code: 404 })
+    const nodeError = Object.assign(new Error('fs'), { code: 'ENOENT' })
+    const error = new AppError({ message: 'top', code: 'E1', cause: new AggregateError([http, nodeError, sentinel]) })
+
+    expect(findCause(error, HttpError)).toBe(http)
+    expect(findCause(error, TypeError)).toBe(null)
+    expect(findCause(error, (item: unknown) => item instanceof Error && item.message === 'fs')).toBe(nodeError)
+    expect(findCause(error, () => { throw new Error('ignored') })).toBe(null)
+
+    expect(hasCode(error, 'E1')).toBe(true)
+    expect(hasCode(error, 404)).toBe(true)
+    expect(hasCode(error, 'ENOENT')).toBe(true)
+    expect(hasCode(error, 'EACCES')).toBe(false)
+
+    expect(is(error, sentinel)).toBe(true)
+    expect(is(error, new Error('not found'))).toBe(false)
+
+    const found: null | HttpError = as(error, HttpError)
+    expect(found).toBe(http)
+    expect(as(error, AppError)).toBe(error)
+    expect(as(error, RangeError)).toBe(null)
+  })
+
+  test('classes from another copy of the library', () => {
+    // Класс из другой копии библиотеки имеет тот же маркер и ключ типа, но другой прототип
+    class ForeignHttpError extends Error {
+      readonly [ERROR_LIKE_MARKER] = true
+      detail = { message: 'foreign' }
+    }
+    class LocalHttpError extends BaseError {}
+    new ErrorRegistry().register('http', ForeignHttpError as any)
+    new ErrorRegistry().register('http', LocalHttpError)
+    const foreign = new ForeignHttpError()
+    const error = new AppError({ cause: foreign })
+    expect(as(error, LocalHttpError)).toBe(foreign)
+    expect(findCause(error, LocalHttpError)).toBe(foreign)
+    expect(rootCause(error)).toBe(foreign)
+  })
+
+  test('base classes from another copy of the library', () => {
+    class ForeignLiteError {
+      readonly [ERROR_LIKE_MARKER] = true
+      detail = { message: 'lite' }
+    }
+    class ForeignBaseError extends Error {
+      readonly [ERROR_LIKE_MARKER] = true
+      detail = { message: 'base' }
+    }
+    const lite = new ForeignLiteError()
+    const base = new ForeignBaseError()
+    const withLite = new Error('outer', { cause: lite })
+    const withBase = new Error('outer', { cause: new Error('middle', { cause: base }) })
+    expect(as(withLite, LiteError)).toBe(lite)
+    expect(as(withLite, ErrorLike)).toBe(lite)
+    expect(as(withLite, BaseError)).toBe(null) // не является нативной ошибкой
+    expect(as(withBase, BaseError)).toBe(base)
+    expect(findCause(withBase, BaseError)).toBe(base)
+  })
+})
@@ -0,0 +1,254 @@
+import { ERROR_LIKE_MARKER, ERROR_TYPE_KEY } from './constants.ts'
+import { ErrorLike, LiteError, BaseError } from './errors.ts'
+import { readErrorTypeKey } from './registry.ts'
+import { isErrorLike, isAggregateError } from './serialization.ts'
+
+/**
+ * Класс ошибки для {@link findCause()} и {@link as()}.
+ */
+type TCauseClass<T = any> = abstract new (...args: any[]) => T
+
+/**
+ * Предикат выбора ошибки для {@link findCause()}.
+ */
+type TCausePredicate = (error: unknown) => boolean
+
+const _hasOwnProperty = Object.prototype.hasOwnProperty
+
+function _isObject (value: unknown): value is object {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function'
+}
+
+/**
+ * Читает причину ошибки: `detail.cause` для {@link ErrorLike} или `cause` для остальных объектов.
+ */
+function _readCause (error: object): unknown {
+  try {
+    return isErrorLike(error) ? error.detail.cause : (error as { cause?: unknown }).cause
+  } catch { /**/ }
+  return undefined
+}
+
+function _readErrors (error: object): readonly unknown[] {
+  try {
+    if (isAggregateError(error) && Array.isArray(error.errors)) {
+      return error.errors
+    }
+  } catch { /**/ }
+  return []
+}
+
+/**
+ * Обходит ошибку и все ее причины в глубину: сама ошибка, цепочка `cause` и вложенные ошибки `AggregateError.errors`.
+ * Причина {@link ErrorLike} читается из `detail.cause`, остальных объектов из `cause`. Каждый объект возвращается один
+ * раз, поэтому циклические ссылки не приводят к бесконечному обходу. Значения `undefined` и `null` пропускаются.
+ *
+ * @param error Любое значение.
+ *
+ * @example
+ * ```ts
+ * for (const cause of iterateCauses(error)) {
+ *   logger.debug(cause)
+ * }
+ * ```
+ */
+function* iterateCauses (error: unknown): Generator<unknown, void, undefined> {
+  const seen: WeakSet<object> = new WeakSet()
+  const stack: unknown[] = [error]
+  while (stack.length > 0) {
+    const current = stack.pop()
+    if (typeof current === 'undefined' || current === null) {
+      continue
+    }
+    if (_isObject(current)) {
+      if (seen.has(current)) {
+        continue
+      }
+      seen.add(current)
+    }
+    yield current
+    if (_isObject(current)) {
+      // Стек обрабатывается с конца: сначала причина, затем вложенные ошибки по порядку
+      const errors = _readErrors(current)
+      for (let i = errors.length - 1; i >= 0; --i) {
+        stack.push(errors[i])
+      }
+      stack.push(_readCause(current))
+    }
+  }
+}
+
+/**
+ * Обходит только основную цепочку `cause`, начиная с самой ошибки, без вложенных ошибок `AggregateError`. При
+ * циклической ссылке обход завершается на последней ошибке до повтора. Значения `undefined` и `null` пропускаются.
+ *
+ * @param error Любое значение.
+ */
+function* iterateCauseChain (error: unknown): Generator<unknown, void, undefined> {
+  const seen: WeakSet<object> = new WeakSet()
+  let current = error
+  while (typeof current !== 'undefined' && current !== null) {
+    yield current
+    if (!_isObject(current)) {
+      break
+    }
+    seen.add(current)
+    current = _readCause(current)
+    if (_isObject(current) && seen.has(current)) {
+      break
+    }
+  }
+}
+
+/**
+ * Возвращает последнюю ошибку цепочки `cause` или саму ошибку, если причины нет. Вложенные ошибки `AggregateError` не
+ * учитываются.
+ *
+ * @param error Любое значение.
+ */
+function rootCause (error: unknown): unknown {
+  let root = error
+  for (const cause of iterateCauseChain(error)) {
+    root = cause
+  }
+  return root
+}
+
+/**
+ * Является ли функция классом ошибки, а не предикатом.
+ */
+function _isErrorClass (value: TCauseClass | TCausePredicate): value is TCauseClass {
+  let proto: unknown
+  try {
+    proto = value.prototype
+  } catch { /**/ }
+  if (!_isObject(proto)) {
+    return false
+  }
+  return proto === Error.prototype || proto instanceof Error || (ERROR_LIKE_MARKER in proto)
+}
+
+/**
+ * Является ли значение экземпляром класса. Для зарегистрированных в {@link ErrorRegistry} классов сравнивается так же
+ * ключ типа, а для базовых классов {@link ErrorLike}, {@link LiteError} и {@link BaseError} маркер
+ * {@link ERROR_LIKE_MARKER}, что позволяет сравнивать ошибки разных копий библиотеки.
+ */
+function _isInstance (value: unknown, ctor: TCauseClass): boolean {
+  if (!_isObject(value)) {
+    return false
+  }
+  try {
+    if (value instanceof ctor) {
+      return true
+    }
+    // Базовые классы ошибок других копий библиотеки распознаются по маркеру, а `BaseError` так же по нативной `Error`
+    if (ctor === ErrorLike || ctor === LiteError || ctor === BaseError) {
+      return isErrorLike(value) && (ctor !== BaseError || value instanceof Error)
+    }
+    const proto: unknown = ctor.prototype
+    if (_isObject(proto) && _hasOwnProperty.call(proto, ERROR_TYPE_KEY)) {
+      const key = readErrorTypeKey(proto)
+      return key !== null && readErrorTypeKey(value) === key
+    }
+  } catch { /**/ }
+  return false
+}
+
+/**
+ * Находит первую ошибку {@link iterateCauses()}, являющуюся экземпляром класса или удовлетворяющую предикату.
+ *
+ * @param error            Любое значение.
+ * @param classOrPredicate Класс ошибки или предикат.
+ * @returns Найденная ошибка или `null`.
+ */
+function findCause<T> (error: unknown, classOrPredicate: TCauseClass<T>): null | T
+function findCause (error: unknown, classOrPredicate: TCausePredicate): unknown
+function findCause (error: unknown, classOrPredicate: TCauseClass | TCausePredicate): unknown {
+  if (_isErrorClass(classOrPredicate)) {
+    return as(error, classOrPredicate)
+  }
+  for (const cause of iterateCauses(error)) {
+    try {
+      if (classOrPredicate(cause)) {
+        return cause
+      }
+    } catch { /**/ }
+  }
+  return null
+}
+
+/**
+ * Есть ли в {@link iterateCauses()} ошибка с кодом `code`. Код {@link ErrorLike} читается из `detail.code`, остальных
+ * объектов из `code`, например `'ENOENT'` ошибок Node.js.
+ *
+ * @param error Любое значение.
+ * @param code  Искомый код.
+ */
+function hasCode (error: unknown, code: string | number): boolean {
+  for (const cause of iterateCauses(error)) {
+    if (!_isObject(cause)) {
+      continue
+    }
+    try {
+      const value: unknown = isErrorLike(cause) ? cause.detail.code : (cause as { code?: unknown }).code
+      if (value === code) {
+        return true
+      }
+    } catch { /**/ }
+  }
+  return false
+}
+
+/**
+ * Аналог `errors.Is` языка Go: есть ли `target` среди ошибок {@link iterateCauses()}. Ошибки сравниваются по ссылке,
+ * что подходит для заранее созданных ошибок-констант.
+ *
+ * @param error  Любое значение.
+ * @param target Искомая ошибка.
+ */
+function is (error: unknown, target: unknown): boolean {
+  for (const cause of iterateCauses(error)) {
+    if (cause === target) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Аналог `errors.As` языка Go: возвращает первую ошибку {@link iterateCauses()}, являющуюся экземпляром класса.
+ * Зарегистрированные в {@link ErrorRegistry} классы распознаются по ключу типа, а базовые классы {@link LiteError} и
+ * {@link BaseError} по маркеру, в том числе в других копиях библиотеки.
+ *
+ * @param error Любое значение.
+ * @param ctor  Класс ошибки.
+ * @returns Найденная ошибка или `null`.
+ *
+ * @example
+ * ```ts
+ * const http = as(error, HttpError)
+ * if (http) {
+ *   reply.status(http.detail.status)
+ * }
+ * ```
+ */
+function as<T> (error: unknown, ctor: TCauseClass<T>): null | T {
+  for (const cause of iterateCauses(error)) {
+    if (_isInstance(cause, ctor)) {
+      return cause as T
+    }
+  }
+  return null
+}
+
+export {
+  type TCauseClass,
+  type TCausePredicate,
+  iterateCauses,
+  iterateCauseChain,
+  rootCause,
+  findCause,
+  hasCode,
+  is,
+  as
+}
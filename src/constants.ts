@@ -11,8 +11,40 @@ const ERROR_LIKE_MARKER_ID: `${typeof LIB_ID}-error-like-marker` = `${LIB_ID}-er
  */
 const ERROR_LIKE_MARKER: unique symbol = Symbol.for(ERROR_LIKE_MARKER_ID)
 
+/**
+ * Уникальный глобальный идентификатор символа {@link ERROR_TYPE_KEY}.
+ */
+const ERROR_TYPE_KEY_ID: `${typeof LIB_ID}-error-type-key` = `${LIB_ID}-error-type-key`
+/**
+ * Символ прототипа класса ошибки, значением которого является ключ типа зарегистрированный в {@link ErrorRegistry}.
+ */
+const ERROR_TYPE_KEY: unique symbol = Symbol.for(ERROR_TYPE_KEY_ID)
+
+/**
+ * Уникальный глобальный идентификатор символа {@link TO_JSON_LIKE}.
+ */
+const TO_JSON_LIKE_ID: `${typeof LIB_ID}-to-json-like` = `${LIB_ID}-to-json-like`
+/**
+ * Символ метода объекта, возвращающего `JsonLike` представление объекта для сериализации ошибок {@link IJsonLikeProjection}.
+ *
+ * Символ зарегистрирован глобально, и сторонние библиотеки могут реализовать метод без зависимости от этого пакета:
+ *
+ * ```ts
+ * class Connection {
+ *   [Symbol.for('js-base-error-fa16eee0-6f43-4a9f-b173-039be69e0690-to-json-like')] () {
+ *     return { host: this.host, state: this.state }
+ *   }
+ * }
+ * ```
+ */
+const TO_JSON_LIKE: unique symbol = Symbol.for(TO_JSON_LIKE_ID)
+
 export {
   LIB_ID,
   ERROR_LIKE_MARKER_ID,
-  ERROR_LIKE_MARKER
+  ERROR_LIKE_MARKER,
+  ERROR_TYPE_KEY_ID,
+  ERROR_TYPE_KEY,
+  TO_JSON_LIKE_ID,
+  TO_JSON_LIKE
 }
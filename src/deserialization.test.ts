@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'vitest'
+import { ErrorLike, LiteError, BaseError, ErrorCollection } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  normalizeDeserializationOptions,
+  errorFromJsonLike
+} from './deserialization.ts'
+
+describe('deserialization', () => {
+  test('normalizeDeserializationOptions', () => {
+    const defaults = { metaFieldName: '__meta', useBaseError: false, registry: null, typeFieldName: null }
+    expect(normalizeDeserializationOptions()).toStrictEqual(defaults)
+    expect(normalizeDeserializationOptions({ metaFieldName: '', useBaseError: 1 as any, typeFieldName: '__meta' })).toStrictEqual(defaults)
+    expect(normalizeDeserializationOptions({ metaFieldName: '$meta', useBaseError: true, typeFieldName: '__type' }))
+      .toStrictEqual({ ...defaults, metaFieldName: '$meta', useBaseError: true, typeFieldName: '__type' })
+  })
+
+  test('errorFromJsonLike restores detail fields', () => {
+    const json = {
+      name: 'AppError',
+      message: 'Oh no',
+      code: 'E0058',
+      level: 'warn',
+      stack: '    at foo (/app.js:1:1)',
+      custom: { value: 1 }
+    }
+    const error = errorFromJsonLike(json)
+    expect(error).toBeInstanceOf(LiteError)
+    expect(error.name).toBe('AppError')
+    expect(error.message).toBe('Oh no')
+    expect(error.detail).toStrictEqual(json)
+
+    const base = errorFromJsonLike(json, { useBaseError: true })
+    expect(base).toBeInstanceOf(BaseError)
+    expect((base as BaseError).stack).toBe('    at foo (/app.js:1:1)')
+    expect(base.toJsonWith({ includeStack: true, keepStackHeader: true })).toStrictEqual(json)
+  })
+
+  test('errorFromJsonLike restores cause chain and collections', () => {
+    const source = new LiteError({
+      name: 'AppError',
+      message: 'top',
+      cause: new LiteError({ name: 'DbError', message: 'db', code: 42, cause: { reason: 'timeout' } }),
+      warnings: new ErrorCollection([{ code: 1, level: 'warn' }, { code: 2, level: 'warn' }])
+    })
+    const json = errorToJsonLike(source, { maxDepth: 4 })
+    const error = errorFromJsonLike(json)
+
+    const cause = error.detail.cause as ErrorLike
+    expect(cause).toBeInstanceOf(ErrorLike)
+    expect(cause.name).toBe('DbError')
+    expect(cause.detail.code).toBe(42)
+    expect(cause.detail.cause).toStrictEqual({ reason: 'timeout' })
+
+    // Коллекция в пользовательском поле без ключа типа остается данными
+    const warnings = (error.detail as any).warnings
+    expect(warnings).toStrictEqual([{ name: 'LiteError', code: 1, level: 'warn' }, { name: 'LiteError', code: 2, level: 'warn' }])
+
+    expect(error.toJsonWith({ maxDepth: 4 })).toStrictEqual(json)
+  })
+
+  test('errorFromJsonLike understands meta placeholders', () => {
+    const error = errorFromJsonLike({
+      name: 'MetaError',
+      date: { __meta: { type: 'date', value: '2025-12-25T13:37:00.000Z' } },
+      re: { __meta: { type: 'regexp', value: '/^[a-z]+$/gi' } },
+      big: { __meta: { type: 'bigint', value: '123' } },
+      sym: { __meta: { type: 'symbol', value: 'Symbol(foo)' } },
+      deepObject: { __meta: { kind: 'object', length: 3 } },
+      deepError: { __meta: { kind: 'error', name: 'DeepError', message: 'deep' } },
+      list: [1, 2, { __meta: { kind: 'array', total: 5, truncated: 3 } }],
+      __meta: { kind: 'object', total: 10, truncated: 2 }
+    })
+    const detail = error.detail as any
+    expect(detail.date).toBeInstanceOf(Date)
+    expect(detail.date.toJSON()).toBe('2025-12-25T13:37:00.000Z')
+    expect(detail.re).toBeInstanceOf(RegExp)
+    expect(detail.re.flags).toBe('gi')
+    expect(detail.big).toBe(123n)
+    expect(detail.sym).toBe('Symbol(foo)')
+    expect('deepObject' in detail).toBe(false)
+    expect(detail.deepError).toBeInstanceOf(LiteError)
+    expect(detail.deepError.detail).toStrictEqual({ name: 'DeepError', message: 'deep' })
+    expect(detail.list).toStrictEqual([1, 2])
+    expect('__meta' in detail).toBe(false)
+
+    const custom = errorFromJsonLike({ name: 'E', $meta: { kind: 'object', total: 2, truncated: 1 } }, { metaFieldName: '$meta' })
+    expect(custom.detail).toStrictEqual({ name: 'E' })
+  })
+
+  test('errorFromJsonLike restores collections, binary data and URLs', () => {
+    const { URL, URLSearchParams } = globalThis as any
+    const detail: Record<string, any> = {
+      name: 'ValueError',
+      map: new Map<any, any>([['a', 1], [2, new Set(['b'])]]),
+      set: new Set([1, 2]),
+      bytes: new Uint8Array([1, 2, 3]),
+      url: new URL('https://example.com/path?q=1'),
+      query: new URLSearchParams({ q: '1' })
+    }
+    const revived = errorFromJsonLike(new LiteError(detail).toJsonWith({ maxDepth: 4 })).detail as any
+    expect(revived.map).toStrictEqual(new Map<any, any>([['a', 1], [2, new Set(['b'])]]))
+    expect(revived.set).toStrictEqual(new Set([1, 2]))
+    expect(revived.bytes).toStrictEqual(new Uint8Array([1, 2, 3]))
+    expect(revived.url).toBeInstanceOf(URL)
+    expect(revived.url.href).toBe('https://example.com/path?q=1')
+    expect(revived.query).toBeInstanceOf(URLSearchParams)
+    expect(revived.query.get('q')).toBe('1')
+
+    // Неполное превью остается строкой, усеченные коллекции восстанавливаются частично
+    const partial = errorFromJsonLike(new LiteError({ name: 'E', bytes: new Uint8Array(8), set: new Set([1, 2, 3, 4]) } as Record<string, any>)
+      .toJsonWith({ maxStringLength: 8, maxItems: 3 })).detail as any
+    expect(partial.bytes).toBe('00000000')
+    expect(partial.set).toStrictEqual(new Set([1, 2, 3]))
+  })
+
+  test('errorFromJsonLike wraps non-object values', () => {
+    expect(errorFromJsonLike(null).detail).toStrictEqual({ name: 'LiteError' })
+    expect(errorFromJsonLike('text').detail).toStrictEqual({ name: 'LiteError', cause: 'text' })
+    expect(errorFromJsonLike({ __meta: { type: 'number', value: 1 } }).detail).toStrictEqual({ name: 'LiteError', cause: 1 })
+    expect(errorFromJsonLike({ __meta: { kind: 'error', name: 'Deep' } }).detail).toStrictEqual({ name: 'Deep' })
+    const collection = errorFromJsonLike(errorToJsonLike(new ErrorCollection([{ message: 'a' }]))).detail.cause
+    expect(collection).toBeInstanceOf(ErrorCollection)
+  })
+
+  test('errorFromJsonLike keeps plain data with a name field', () => {
+    const error = errorFromJsonLike({
+      name: 'AppError',
+      message: 'top',
+      cause: { name: 'Bob', age: 42 },
+      users: [{ name: 'Bob' }, { name: 'Alice' }],
+      failures: [{ name: 'DbError', stack: 'DbError\n    at x (a.js:1:1)' }]
+    })
+    expect(error.detail.cause).toStrictEqual({ name: 'Bob', age: 42 })
+    expect((error.detail as any).users).toStrictEqual([{ name: 'Bob' }, { name: 'Alice' }])
+    expect((error.detail as any).failures).toStrictEqual([{ name: 'DbError', stack: 'DbError\n    at x (a.js:1:1)' }])
+    expect(errorFromJsonLike({ name: 'A', cause: { name: 'B', __type: 'db' } }, { typeFieldName: '__type' }).detail.cause).toBeInstanceOf(ErrorLike)
+
+    // Ключ типа восстанавливает ошибку и в пользовательском поле
+    const typed = errorFromJsonLike({ name: 'A', failures: [{ name: 'B', __type: 'db' }] }, { typeFieldName: '__type' }).detail as any
+    expect(typed.failures).toBeInstanceOf(ErrorCollection)
+  })
+
+  test('errorFromJsonLike keeps error-like custom fields as data', () => {
+    const source = new LiteError({
+      name: 'ValidationError',
+      message: 'Invalid form',
+      field: { name: 'email', message: 'invalid' },
+      details: [{ name: 'email', message: 'invalid' }, { name: 'age', message: 'too small' }],
+      cause: new LiteError({ name: 'SchemaError', message: 'schema', errors: [{ name: 'email', message: 'invalid' }] })
+    })
+    const json = errorToJsonLike(source, { maxDepth: 4 })
+    const error = errorFromJsonLike(json)
+    const detail = error.detail as any
+    expect(detail.field).toStrictEqual({ name: 'email', message: 'invalid' })
+    expect(detail.details).toStrictEqual([{ name: 'email', message: 'invalid' }, { name: 'age', message: 'too small' }])
+    expect(detail.cause).toBeInstanceOf(LiteError)
+    expect(detail.cause.detail.errors).toStrictEqual([{ name: 'email', message: 'invalid' }])
+    expect(error.toJsonWith({ maxDepth: 4 })).toStrictEqual(json)
+
+    // Вложенные ошибки `AggregateError` восстанавливаются
+    const aggregate = errorFromJsonLike({ name: 'AggregateError', message: 'all', errors: [{ name: 'Error', message: 'one' }] })
+    expect((aggregate.detail as any).errors).toBeInstanceOf(ErrorCollection)
+  })
+
+  test('errorFromJsonLike ignores invalid types of detail fields', () => {
+    const error = errorFromJsonLike({ name: 'E', message: 1, code: 1.5, level: null, stack: {} })
+    expect(error.detail).toStrictEqual({ name: 'E' })
+  })
+})
@@ -0,0 +1,500 @@
+import type {
+  TNullish,
+  IErrorDetail
+} from './types.ts'
+import {
+  ErrorLike,
+  LiteError,
+  BaseError,
+  ErrorCollection
+} from './errors.ts'
+import { DEFAULT_SERIALIZATION_OPTIONS } from './options.ts'
+import { hexToBytes, base64ToBytes } from './encoding.ts'
+import type { ErrorRegistry } from './registry.ts'
+
+const _RE_REGEXP = /^\/([\s\S]*)\/([a-z]*)$/
+
+/**
+ * Опции восстановления ошибок из `JsonLike` объектов.
+ */
+type TDeserializationOptions = {
+  /**
+   * Имя поля мета информации. По умолчанию `'__meta'`. Должно совпадать с опцией сериализации
+   * {@link TSerializationOptions.metaFieldName}.
+   */
+  metaFieldName?: TNullish | string
+  /**
+   * Восстанавливать ошибки как {@link BaseError}. По умолчанию `false` - все ошибки восстанавливаются как
+   * {@link LiteError}.
+   */
+  useBaseError?: TNullish | boolean
+  /**
+   * Реестр классов ошибок. Класс ошибки выбирается по ключу типа {@link TDeserializationOptions.typeFieldName}, а
+   * при его отсутствии по полю `name`. Неизвестные ключи используют {@link TErrorRegistryOptions.fallback} или, если
+   * он не установлен, {@link TDeserializationOptions.useBaseError}.
+   */
+  registry?: TNullish | ErrorRegistry
+  /**
+   * Имя поля ключа типа. Должно совпадать с опцией сериализации {@link TSerializationOptions.typeFieldName}. По
+   * умолчанию `null` - класс ошибки выбирается только по `name`.
+   */
+  typeFieldName?: TNullish | string
+}
+
+/**
+ * Нормализованные опции {@link TDeserializationOptions}.
+ */
+type TNormalizedDeserializationOptions = {
+  readonly metaFieldName: string
+  readonly useBaseError: boolean
+  readonly registry: null | ErrorRegistry
+  readonly typeFieldName: null | string
+}
+
+/**
+ * Нормализует пользовательские опции {@link TDeserializationOptions}.
+ */
+function normalizeDeserializationOptions (options?: TNullish | TDeserializationOptions): TNormalizedDeserializationOptions {
+  let metaFieldName: any
+  let useBaseError: any
+  let registry: any
+  let typeFieldName: any
+  if (typeof options === 'object' && options !== null) {
+    try {
+      metaFieldName = options.metaFieldName
+      useBaseError = options.useBaseError
+      registry = options.registry
+      typeFieldName = options.typeFieldName
+    } catch { /**/ }
+  }
+  if (typeof metaFieldName !== 'string' || metaFieldName.length === 0) {
+    metaFieldName = DEFAULT_SERIALIZATION_OPTIONS.metaFieldName
+  }
+  return {
+    metaFieldName,
+    useBaseError: useBaseError === true,
+    registry: (typeof registry === 'object' && registry !== null && typeof registry.create === 'function') ? registry : null,
+    typeFieldName: (typeof typeFieldName === 'string' && typeFieldName.length > 0 && typeFieldName !== metaFieldName) ? typeFieldName : null
+  }
+}
+
+class DeserializationContext {
+  protected readonly _seen: WeakSet<object> = new WeakSet()
+  readonly options: TNormalizedDeserializationOptions
+
+  constructor(options: TNormalizedDeserializationOptions) {
+    this.options = options
+  }
+
+  /**
+   * Помечает объект как посещенный. Возвращает `false`, если объект уже встречался.
+   */
+  enter (obj: object): boolean {
+    if (this._seen.has(obj)) {
+      return false
+    }
+    this._seen.add(obj)
+    return true
+  }
+}
+
+const _LEVELS: ReadonlySet<string> = new Set(['debug', 'info', 'warn', 'error', 'fatal'])
+
+/**
+ * Является ли объект сериализованной ошибкой. Сериализованные {@link ErrorLike} всегда имеют непустое `name`, но
+ * одного `name` недостаточно - данные вроде `{ name: 'Bob' }` не должны становиться ошибками. Дополнительно требуется
+ * строковое `message`, поле `stack`, уровень ошибки `level`, ключ типа или заместитель `__meta` усеченного объекта.
+ *
+ * Проверка применяется только к значениям, в которые сериализатор записывает ошибки: корню, `cause` и `errors`.
+ */
+function _isErrorShape (value: any, ctx: DeserializationContext): boolean {
+  try {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || typeof value.name !== 'string' || value.name.length === 0) {
+      return false
+    }
+    const { metaFieldName, typeFieldName } = ctx.options
+    return typeof value.message === 'string' ||
+      ('stack' in value) ||
+      (typeof value.level === 'string' && _LEVELS.has(value.level)) ||
+      (typeFieldName !== null && typeof value[typeFieldName] === 'string') ||
+      _readMeta(value, metaFieldName)?.['kind'] === 'object'
+  } catch { /**/ }
+  return false
+}
+
+/**
+ * Имеет ли объект ключ типа {@link TDeserializationOptions.typeFieldName}. Такие объекты записываются сериализатором
+ * только для ошибок зарегистрированных классов и восстанавливаются как ошибки в любом месте.
+ */
+function _isTyped (value: Record<string, any>, ctx: DeserializationContext): boolean {
+  const typeFieldName = ctx.options.typeFieldName
+  if (typeFieldName === null) {
+    return false
+  }
+  try {
+    const typeKey = value[typeFieldName]
+    return typeof typeKey === 'string' && typeKey.length > 0
+  } catch { /**/ }
+  return false
+}
+
+function _readMeta (obj: Record<string, any>, metaFieldName: string): null | Record<string, any> {
+  let meta: any
+  try {
+    meta = obj[metaFieldName]
+  } catch { /**/ }
+  return (typeof meta === 'object' && meta !== null && !Array.isArray(meta)) ? meta : null
+}
+
+function _isTruncatedMeta (item: any, metaFieldName: string): boolean {
+  if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
+    const meta = _readMeta(item, metaFieldName)
+    return meta !== null && meta['kind'] === 'array' && ('truncated' in meta)
+  }
+  return false
+}
+
+function _reviveMap (entries: any[], ctx: DeserializationContext): Map<unknown, unknown> {
+  const map = new Map()
+  if (!ctx.enter(entries)) {
+    return map
+  }
+  for (const entry of entries) {
+    if (Array.isArray(entry) && entry.length === 2) {
+      map.set(_reviveValue(entry[0], ctx), _reviveValue(entry[1], ctx))
+    }
+  }
+  return map
+}
+
+function _reviveSet (items: any[], ctx: DeserializationContext): Set<unknown> {
+  const set = new Set()
+  if (!ctx.enter(items)) {
+    return set
+  }
+  for (const item of items) {
+    if (!_isTruncatedMeta(item, ctx.options.metaFieldName)) {
+      const value = _reviveValue(item, ctx)
+      if (typeof value !== 'undefined') {
+        set.add(value)
+      }
+    }
+  }
+  return set
+}
+
+function _reviveBinary (meta: Record<string, any>): unknown {
+  const value = meta['value']
+  if (typeof value !== 'string') {
+    return value
+  }
+  // Превью не содержит всех данных - восстановить их невозможно
+  const bytes = meta['encoding'] === 'base64' ? base64ToBytes(value) : hexToBytes(value)
+  return (bytes && bytes.length === meta['length']) ? bytes : value
+}
+
+function _reviveGlobal (name: 'URL' | 'URLSearchParams', value: any): unknown {
+  const Ctor: unknown = Reflect.get(globalThis, name)
+  if (typeof Ctor === 'function' && typeof value === 'string') {
+    try {
+      return Reflect.construct(Ctor, [value]) as unknown
+    } catch { /**/ }
+  }
+  return value
+}
+
+/**
+ * Восстанавливает значение заместителя {@link TMetaValue}. Типы `symbol`, `function` и `custom` восстановить
+ * невозможно - их значением остается строковое представление. Двоичные данные восстанавливаются в `Uint8Array`,
+ * только если превью содержит все байты.
+ */
+function _reviveMetaValue (meta: Record<string, any>, ctx: DeserializationContext): unknown {
+  const value = meta['value']
+  switch (meta['type']) {
+    case 'date': {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? value : date
+    }
+    case 'regexp': {
+      const match = typeof value === 'string' ? _RE_REGEXP.exec(value) : null
+      if (match) {
+        try {
+          return new RegExp(match[1] as string, match[2])
+        } catch { /**/ }
+      }
+      return value
+    }
+    case 'bigint':
+      try {
+        return BigInt(value)
+      } catch { /**/ }
+      return value
+    case 'array':
+      return Array.isArray(value) ? _reviveArray(value, ctx, false) : value
+    case 'map':
+      return Array.isArray(value) ? _reviveMap(value, ctx) : value
+    case 'set':
+      return Array.isArray(value) ? _reviveSet(value, ctx) : value
+    case 'binary':
+      return _reviveBinary(meta)
+    case 'url':
+      return _reviveGlobal('URL', value)
+    case 'urlsearchparams':
+      return _reviveGlobal('URLSearchParams', value)
+  }
+  return value
+}
+
+/**
+ * Восстанавливает массив. Массив, все элементы которого оказались ошибками, становится {@link ErrorCollection}.
+ *
+ * @param errors Является ли массив значением, в которое сериализатор записывает ошибки. Только в этом случае
+ *               элементы формы ошибки {@link _isErrorShape()} восстанавливаются как ошибки.
+ */
+function _reviveArray (array: any[], ctx: DeserializationContext, errors: boolean): unknown[] {
+  if (!ctx.enter(array)) {
+    return []
+  }
+  const metaFieldName = ctx.options.metaFieldName
+  const items: any[] = []
+  let errorsOnly = true
+  for (const item of array) {
+    // Элемент усеченного массива `{ __meta: { kind: 'array', total, truncated } }` не является пользовательским
+    if (_isTruncatedMeta(item, metaFieldName)) {
+      continue
+    }
+    if (errors && _isErrorShape(item, ctx)) {
+      items.push(_reviveError(item, ctx))
+      continue
+    }
+    const value = _reviveValue(item, ctx)
+    if (typeof value !== 'undefined') {
+      if (!(value instanceof ErrorLike)) {
+        errorsOnly = false
+      }
+      items.push(value)
+    }
+  }
+  return (errorsOnly && items.length > 0) ? new ErrorCollection(items) : items
+}
+
+function _reviveObject (obj: Record<string, any>, ctx: DeserializationContext, receiver: Record<string, any>, skipKeys: null | ReadonlySet<string>): Record<string, any> {
+  const metaFieldName = ctx.options.metaFieldName
+  const typeFieldName = skipKeys ? ctx.options.typeFieldName : null
+  for (const key of Object.keys(obj)) {
+    if (key === metaFieldName || key === typeFieldName || skipKeys?.has(key)) {
+      continue
+    }
+    let value: any
+    try {
+      value = obj[key]
+    } catch { /**/ }
+    const revived = _reviveValue(value, ctx)
+    if (typeof revived !== 'undefined') {
+      receiver[key] = revived
+    }
+  }
+  return receiver
+}
+
+/**
+ * Восстанавливает произвольное значение. Возвращает `undefined` для значений, которые не могут быть восстановлены.
+ */
+function _reviveValue (value: any, ctx: DeserializationContext): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return _reviveArray(value, ctx, false)
+  }
+  const meta = _readMeta(value, ctx.options.metaFieldName)
+  if (meta) {
+    if ('type' in meta) {
+      return _reviveMetaValue(meta, ctx)
+    }
+    // Заместитель ошибки превысившей глубину
+    if (meta['kind'] === 'error') {
+      return _createError({ name: meta['name'], message: meta['message'] }, ctx)
+    }
+    // Заместители контейнера `{ kind, length }` и повторной ссылки `{ kind: 'circular', ref }` не содержат данных
+    if ('length' in meta || meta['kind'] === 'circular') {
+      return undefined
+    }
+  }
+  if (_isTyped(value, ctx)) {
+    return _reviveError(value, ctx)
+  }
+  if (!ctx.enter(value)) {
+    return undefined
+  }
+  return _reviveObject(value, ctx, {}, null)
+}
+
+/**
+ * Восстанавливает значение, в которое сериализатор записывает ошибки: `cause`, `errors` или массив верхнего уровня.
+ * Объекты формы ошибки и массивы с ними восстанавливаются как ошибки, остальные значения - как данные.
+ */
+function _reviveErrorValue (value: any, ctx: DeserializationContext): unknown {
+  if (Array.isArray(value)) {
+    return _reviveArray(value, ctx, true)
+  }
+  return _isErrorShape(value, ctx) ? _reviveError(value, ctx) : _reviveValue(value, ctx)
+}
+
+const _DETAIL_KEYS: ReadonlySet<string> = new Set(['name', 'message', 'code', 'stack', 'cause', 'level'])
+const _AGGREGATE_DETAIL_KEYS: ReadonlySet<string> = new Set([..._DETAIL_KEYS, 'errors'])
+
+function _isValidDetailField (key: string, value: any): boolean {
+  switch (key) {
+    case 'name':
+    case 'message':
+    case 'stack':
+    case 'level':
+      return typeof value === 'string'
+    case 'code':
+      return typeof value === 'string' || Number.isSafeInteger(value)
+  }
+  return true
+}
+
+function _createError (source: Record<string, any>, ctx: DeserializationContext, typeKey?: TNullish | string): ErrorLike {
+  const detail: IErrorDetail = {}
+  for (const key of Object.keys(source)) {
+    const value = source[key]
+    if (typeof value !== 'undefined' && _isValidDetailField(key, value)) {
+      detail[key as keyof IErrorDetail] = value
+    }
+  }
+  const registry = ctx.options.registry
+  if (registry) {
+    try {
+      const error = registry.create(typeKey ?? detail.name, detail)
+      if (error) {
+        return _restoreStack(error, detail)
+      }
+    } catch { /**/ }
+  }
+  if (!ctx.options.useBaseError) {
+    return new LiteError(detail)
+  }
+  return _restoreStack(new BaseError(detail), detail)
+}
+
+/**
+ * Заменяет стек места восстановления нативной ошибки сериализованным стеком.
+ */
+function _restoreStack<T extends ErrorLike> (error: T, detail: IErrorDetail): T {
+  const native: unknown = error
+  if (typeof detail.stack === 'string' && native instanceof Error) {
+    try {
+      native.stack = detail.stack
+    } catch { /**/ }
+  }
+  return error
+}
+
+/**
+ * Восстанавливает ошибку из объекта, который является сериализованной ошибкой.
+ */
+function _reviveError (obj: Record<string, any>, ctx: DeserializationContext): ErrorLike {
+  if (!ctx.enter(obj)) {
+    return _createError({}, ctx)
+  }
+  const detail: Record<string, any> = {}
+  for (const key of _DETAIL_KEYS) {
+    let value: any
+    try {
+      value = obj[key]
+    } catch { /**/ }
+    if (typeof value === 'undefined') {
+      continue
+    }
+    if (key === 'cause') {
+      const cause = _reviveErrorValue(value, ctx)
+      if (typeof cause !== 'undefined') {
+        detail['cause'] = cause
+      }
+    }
+    else {
+      detail[key] = value
+    }
+  }
+  // Поле `errors` сериализатор записывает только для `AggregateError`, у остальных ошибок это пользовательские данные
+  let skipKeys = _DETAIL_KEYS
+  if (detail['name'] === 'AggregateError') {
+    let value: any
+    try {
+      value = obj['errors']
+    } catch { /**/ }
+    const errors = _reviveErrorValue(value, ctx)
+    if (typeof errors !== 'undefined') {
+      detail['errors'] = errors
+    }
+    skipKeys = _AGGREGATE_DETAIL_KEYS
+  }
+  _reviveObject(obj, ctx, detail, skipKeys)
+  let typeKey: any
+  if (ctx.options.typeFieldName !== null) {
+    try {
+      typeKey = obj[ctx.options.typeFieldName]
+    } catch { /**/ }
+  }
+  return _createError(detail, ctx, (typeof typeKey === 'string' && typeKey.length > 0) ? typeKey : null)
+}
+
+/**
+ * Восстанавливает ошибку из `JsonLike` объекта, полученного функциями {@link errorToJsonLike()},
+ * {@link ErrorLike.toJsonWith()} или аналогичными.
+ *
+ * Эта функция всегда возвращает {@link ErrorLike}:
+ *
+ *  + Поля `name`, `message`, `code`, `level` и `stack` переносятся в детали ошибки.
+ *  + Ошибки восстанавливаются только там, куда их записывает сериализатор: в поле `cause`, поле `errors` ошибки
+ *    `AggregateError` и массиве верхнего уровня. Ошибкой считается объект с непустым `name` и одним из полей
+ *    `message`, `stack`, `level`, ключа типа или заместителя `__meta`. Остальные значения этих полей и все
+ *    пользовательские поля, например `details: [{ name: 'email', message: 'invalid' }]`, восстанавливаются как
+ *    данные.
+ *  + Объекты с ключом типа {@link TDeserializationOptions.typeFieldName} восстанавливаются как ошибки в любом месте.
+ *  + Массивы, все элементы которых являются ошибками, восстанавливаются как {@link ErrorCollection}.
+ *  + Заместители `__meta` не считаются пользовательскими данными: {@link TMetaValue} восстанавливаются в исходный тип
+ *    (`Date`, `RegExp`, `bigint`, `Map`, `Set`, `URL`, `Uint8Array`), {@link TMetaPlaceholder} ошибки - в ошибку с `name` и `message`, а заместители
+ *    контейнеров, повторных ссылок и {@link TMetaTruncated} удаляются.
+ *  + Если значение верхнего уровня не является объектом, оно будет записано в `cause` пустой ошибки.
+ *  + Если установлен {@link TDeserializationOptions.registry}, класс ошибки выбирается по ключу типа или `name`.
+ *
+ * @param json    Результат сериализации ошибки.
+ * @param options Пользовательские опции {@link TDeserializationOptions}.
+ *
+ * @example
+ * ```ts
+ * const error = errorFromJsonLike(JSON.parse(text))
+ * // error instanceof ErrorLike === true
+ * ```
+ */
+function errorFromJsonLike (json: any, options?: TNullish | TDeserializationOptions): ErrorLike {
+  const ctx = new DeserializationContext(normalizeDeserializationOptions(options))
+  if (typeof json !== 'object' || json === null) {
+    return _createError(typeof json === 'undefined' || json === null ? {} : { cause: json }, ctx)
+  }
+  if (Array.isArray(json)) {
+    return _createError({ cause: _reviveArray(json, ctx, true) }, ctx)
+  }
+  const meta = _readMeta(json, ctx.options.metaFieldName)
+  if (meta && (('type' in meta) || meta['kind'] === 'error')) {
+    // Коллекция ошибок верхнего уровня записывается заместителем массива
+    const value = (meta['type'] === 'array' && Array.isArray(meta['value'])) ? _reviveArray(meta['value'], ctx, true) : _reviveValue(json, ctx)
+    if (value instanceof ErrorLike) {
+      return value as ErrorLike
+    }
+    return _createError(typeof value === 'undefined' || value === null ? {} : { cause: value }, ctx)
+  }
+  return _reviveError(json, ctx)
+}
+
+export {
+  type TDeserializationOptions,
+  type TNormalizedDeserializationOptions,
+  normalizeDeserializationOptions,
+  DeserializationContext,
+  errorFromJsonLike
+}
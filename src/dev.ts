@@ -1,11 +1,58 @@
+export {
+  ANSI_STYLES,
+  type TAnsiStream,
+  type TAnsiRenderOptions,
+  isAnsiColorEnabled,
+  writeAnsiInto,
+  errorToAnsi
+} from './ansi.ts'
 export {
   captureStackTrace
 } from './capture.ts'
+export {
+  type TCatalogFields,
+  type TErrorCatalogEntry,
+  type TCatalogParams,
+  type TCatalogDetail,
+  type TCatalogFactory,
+  type TCatalogErrorClass,
+  type TErrorCatalog,
+  type TErrorCatalogOptions,
+  catalogFields,
+  defineErrorCatalog,
+  resetErrorCatalogCodes
+} from './catalog.ts'
+export {
+  writeCausedByInto,
+  errorToCausedByString
+} from './causedby.ts'
+export {
+  type TCauseClass,
+  type TCausePredicate,
+  iterateCauses,
+  iterateCauseChain,
+  rootCause,
+  findCause,
+  hasCode,
+  is,
+  as
+} from './chain.ts'
 export {
   LIB_ID,
   ERROR_LIKE_MARKER_ID,
-  ERROR_LIKE_MARKER
+  ERROR_LIKE_MARKER,
+  ERROR_TYPE_KEY_ID,
+  ERROR_TYPE_KEY,
+  TO_JSON_LIKE_ID,
+  TO_JSON_LIKE
 } from './constants.ts'
+export {
+  type TDeserializationOptions,
+  type TNormalizedDeserializationOptions,
+  normalizeDeserializationOptions,
+  DeserializationContext,
+  errorFromJsonLike
+} from './deserialization.ts'
 export {
   captureErrorProperties,
   defineErrorLike,
@@ -23,6 +70,99 @@ export {
   SerializationParameters,
   ensureSerializationParameters
 } from './options.ts'
+export {
+  type TFingerprintOptions,
+  normalizeFingerprintMessage,
+  fingerprint
+} from './fingerprint.ts'
+export {
+  type TTextFormatterValueRenderer,
+  type TTextFormatterKeyOrder,
+  type TTextFormatterOptions,
+  TextFormatter
+} from './formatter.ts'
+export {
+  MIN_BUDGET_MESSAGE_LENGTH,
+  utf8ByteLength,
+  jsonByteLength,
+  fitJsonToByteBudget
+} from './budget.ts'
+export {
+  bytesToHex,
+  hexToBytes,
+  bytesToBase64,
+  base64ToBytes
+} from './encoding.ts'
+export {
+  cyrb53
+} from './hash.ts'
+export {
+  type TTypeInspectorResult,
+  type TTypeInspector,
+  type TTypeInspectorPredicate,
+  TypeInspectors
+} from './inspectors.ts'
+export {
+  JSON_RPC_ERROR_CODES,
+  type TJsonRpcError,
+  type TJsonRpcOptions,
+  isJsonRpcReservedCode,
+  errorToJsonRpc,
+  errorFromJsonRpc
+} from './jsonrpc.ts'
+export {
+  type TPluralMessage,
+  type TLocaleMessage,
+  type TLocaleMessages,
+  type TLocaleCatalogOptions,
+  LocaleCatalog,
+  localizeDetail,
+  localizeError
+} from './locale.ts'
+export {
+  type TPathSegment,
+  type TPathSelector,
+  isPathSelector,
+  parsePathSelector,
+  matchPathSelector,
+  allowPathSelector,
+  formatPath
+} from './paths.ts'
+export {
+  type TDetailPlan,
+  takeServiceKeys,
+  buildDetailPlan,
+  DetailPlanCache
+} from './plans.ts'
+export {
+  PROBLEM_DETAILS_CONTENT_TYPE,
+  type TProblemDetails,
+  type TProblemDetailsOptions,
+  errorToProblemDetails,
+  errorFromProblemDetails
+} from './problemdetails.ts'
+export {
+  PUBLIC_LEVEL_MESSAGES,
+  type TPublicJson,
+  type TPublicJsonOptions,
+  toPublicJson
+} from './public.ts'
+export {
+  type TRedactionPattern,
+  type TRedactionReplacer,
+  type TRedactionOptions,
+  REDACTION_VALUE_PATTERNS,
+  redactWithHash,
+  Redaction,
+  normalizeRedaction
+} from './redaction.ts'
+export {
+  type TErrorClass,
+  type TErrorFactory,
+  type TErrorRegistryOptions,
+  readErrorTypeKey,
+  ErrorRegistry
+} from './registry.ts'
 export {
   type TValueTypes,
   VALUE_TYPES,
@@ -41,24 +181,59 @@ export {
   safeArrayLength,
   safeReadCodeInto,
   safeReadStackInto,
+  safeReadStackFramesInto,
+  readStackInto,
   safeReadStringInto,
   safeReadPropsInto,
+  readPlannedPropsInto,
+  inspectCircular,
   inspectPrimitive,
   inspectDate,
   inspectRegExp,
   inspectObject,
   inspectArray,
   inspectDetail,
+  isAggregateError,
   inspectError,
+  inspectMap,
+  inspectSet,
+  isBinary,
+  inspectBinary,
+  inspectUrl,
+  inspectCustom,
+  readJsonLikeProjection,
+  inspectProjection,
   inspectAny,
   ensureSerResultAsObject,
   errorLikeToJsonLike,
   nativeErrorToJsonLike,
   errorToJsonLike,
+  createSerializationReport,
+  errorToJsonLikeWithReport,
+  writeInspected,
+  writeFormattedTextInto,
   errorLikeToToString,
   nativeErrorToString,
-  errorToString
+  errorToString,
+  errorWriteJson,
+  errorWriteText
 } from './serialization.ts'
+export {
+  type TStackFrame,
+  parseStackFrame,
+  parseStackTrace,
+  formatStackFrame,
+  type TStackPattern,
+  type TStackShapeOptions,
+  normalizeStackPatterns,
+  shapeStackTrace
+} from './stack.ts'
+export {
+  type TTemplateValue,
+  type TTemplateKeys,
+  type TTemplateParams,
+  interpolate
+} from './template.ts'
 export {
   type TNullish,
   type TPrimitive,
@@ -68,11 +243,32 @@ export {
   type TJsonLike,
   type TErrorLevel,
   type IErrorDetail,
+  type IJsonLikeProjection,
   type ISerializable,
   type IErrorSerializable,
   type IErrorLike,
   type IErrorCollection,
   type TMetaValue,
+  type TMetaCollection,
+  type TMetaBinary,
   type TMetaTruncated,
-  type TMetaPlaceholder
+  type TMetaPlaceholder,
+  type TSerializationReport
 } from './types.ts'
+export {
+  type TWriterSink,
+  StringSink,
+  writeJsonInto,
+  writeTextInto,
+  StreamWriter,
+  JsonStreamWriter,
+  TextStreamWriter
+} from './writer.ts'
+export {
+  type TWrapContext,
+  type TWrapOptions,
+  wrap,
+  lookupCode,
+  rootCode,
+  breadcrumb
+} from './wrap.ts'
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest'
+//
+import {
+  bytesToHex,
+  hexToBytes,
+  bytesToBase64,
+  base64ToBytes
+} from './encoding.ts'
+
+describe('encoding', () => {
+  test('bytesToHex + hexToBytes', () => {
+    const bytes = new Uint8Array([0, 1, 15, 16, 127, 255])
+    expect(bytesToHex(bytes)).toBe('00010f107fff')
+    expect(hexToBytes('00010f107fff')).toStrictEqual(bytes)
+    expect(hexToBytes('00010F107FFF')).toStrictEqual(bytes)
+    expect(bytesToHex(new Uint8Array())).toBe('')
+    expect(hexToBytes('abc')).toBe(null)
+    expect(hexToBytes('zz')).toBe(null)
+  })
+
+  test('bytesToBase64 + base64ToBytes', () => {
+    const text = (value: string) => Uint8Array.from(value, (c) => c.charCodeAt(0))
+    expect(bytesToBase64(text('Man'))).toBe('TWFu')
+    expect(bytesToBase64(text('Ma'))).toBe('TWE=')
+    expect(bytesToBase64(text('M'))).toBe('TQ==')
+    expect(bytesToBase64(new Uint8Array([251, 255, 191]))).toBe('+/+/')
+    expect(base64ToBytes('TWFu')).toStrictEqual(text('Man'))
+    expect(base64ToBytes('TWE=')).toStrictEqual(text('Ma'))
+    expect(base64ToBytes('TQ==')).toStrictEqual(text('M'))
+    expect(base64ToBytes('')).toStrictEqual(new Uint8Array())
+    expect(base64ToBytes('TQ=')).toBe(null)
+    expect(base64ToBytes('T=Q=')).toBe(null)
+
+    const bytes = new Uint8Array(256).map((_, i) => i)
+    expect(base64ToBytes(bytesToBase64(bytes))).toStrictEqual(bytes)
+  })
+})
@@ -0,0 +1,85 @@
+const _HEX = '0123456789abcdef'
+const _BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const _RE_HEX = /^(?:[0-9a-f]{2})*$/i
+const _RE_BASE64 = /^[A-Za-z0-9+/]*={0,2}$/
+
+/**
+ * Кодирует байты в строку шестнадцатеричных символов.
+ */
+function bytesToHex (bytes: Uint8Array): string {
+  let result = ''
+  for (const byte of bytes) {
+    result += (_HEX[byte >> 4] as string) + (_HEX[byte & 15] as string)
+  }
+  return result
+}
+
+/**
+ * Декодирует строку шестнадцатеричных символов.
+ *
+ * @returns Байты или `null`, если строка не является допустимой.
+ */
+function hexToBytes (value: string): null | Uint8Array {
+  if (!_RE_HEX.test(value)) {
+    return null
+  }
+  const bytes = new Uint8Array(value.length / 2)
+  for (let i = 0; i < bytes.length; ++i) {
+    bytes[i] = Number.parseInt(value.substring(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Кодирует байты в строку Base64. Не зависит от `btoa()` и `Buffer`.
+ */
+function bytesToBase64 (bytes: Uint8Array): string {
+  let result = ''
+  let i = 0
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = ((bytes[i] as number) << 16) | ((bytes[i + 1] as number) << 8) | (bytes[i + 2] as number)
+    result += (_BASE64[n >> 18] as string) + (_BASE64[(n >> 12) & 63] as string) + (_BASE64[(n >> 6) & 63] as string) + (_BASE64[n & 63] as string)
+  }
+  const rest = bytes.length - i
+  if (rest > 0) {
+    const n = ((bytes[i] as number) << 16) | (rest === 2 ? ((bytes[i + 1] as number) << 8) : 0)
+    result += (_BASE64[n >> 18] as string) + (_BASE64[(n >> 12) & 63] as string)
+    result += rest === 2 ? `${_BASE64[(n >> 6) & 63] as string}=` : '=='
+  }
+  return result
+}
+
+/**
+ * Декодирует строку Base64. Не зависит от `atob()` и `Buffer`.
+ *
+ * @returns Байты или `null`, если строка не является допустимой.
+ */
+function base64ToBytes (value: string): null | Uint8Array {
+  if (value.length % 4 !== 0 || !_RE_BASE64.test(value)) {
+    return null
+  }
+  const padding = value.endsWith('==') ? 2 : (value.endsWith('=') ? 1 : 0)
+  const bytes = new Uint8Array(value.length / 4 * 3 - padding)
+  let j = 0
+  for (let i = 0; i < value.length; i += 4) {
+    const n = (_BASE64.indexOf(value[i] as string) << 18) |
+      (_BASE64.indexOf(value[i + 1] as string) << 12) |
+      ((_BASE64.indexOf(value[i + 2] as string) & 63) << 6) |
+      (_BASE64.indexOf(value[i + 3] as string) & 63)
+    bytes[j++] = n >> 16
+    if (j < bytes.length) {
+      bytes[j++] = (n >> 8) & 255
+    }
+    if (j < bytes.length) {
+      bytes[j++] = n & 255
+    }
+  }
+  return bytes
+}
+
+export {
+  bytesToHex,
+  hexToBytes,
+  bytesToBase64,
+  base64ToBytes
+}
@@ -513,7 +513,11 @@ class ErrorCollection<T extends ErrorLike<any> = ErrorLike<any>, P extends (Erro
   }
 
   toStringWith (options?: TNullish | TSerializationOptions | SerializationParameters): string {
-    const errors = this.toJsonWith(options)
+    const params = ensureSerializationParameters(options)
+    const errors = this.toJsonWith(params)
+    if (params.formatter) {
+      return params.formatter.formatArray(errors, params.metaFieldName)
+    }
     const receiver: string[] = []
     jsonArrayInto(errors, receiver, 0)
     return receiver.join('\n')
@@ -534,11 +538,13 @@ class ErrorCollection<T extends ErrorLike<any> = ErrorLike<any>, P extends (Erro
     const params = ensureSerializationParameters(options)
     const ctx = new SerializationContext(params.maxTotalItems, params.maxItems)
     const collection: Record<string, any>[] = []
-    for (const item of this) {
+    for (const [i, item] of this.entries()) {
       if (ctx.isTotalFull()) {
         break
       }
+      ctx.pushPath(i)
       const result = inspectAny(item, params, ctx, 1)
+      ctx.popPath()
       if (result[0] !== VALUE_TYPES.undefined) {
         collection.push(ensureSerResultAsObject(result, params.metaFieldName))
         ctx.increment()
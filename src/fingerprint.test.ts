@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError, BaseError } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  normalizeFingerprintMessage,
+  fingerprint
+} from './fingerprint.ts'
+
+const stackA = 'Error: x\n    at run (/build/1/src/main.js:10:5)\n    at main (/build/1/src/index.js:1:1)'
+const stackB = 'Error: y\n    at run (/home/ci/src/main.js:12:7)\n    at main (/home/ci/src/index.js:2:1)'
+
+describe('fingerprint', () => {
+  test('normalizeFingerprintMessage', () => {
+    expect(normalizeFingerprintMessage('User "bob" with id 42 not found')).toBe('User <str> with id <num> not found')
+    expect(normalizeFingerprintMessage('Order 3f2504e0-4f89-11d3-9a0c-0305e82c3301  at 0xff00 (hash deadbeef12)'))
+      .toBe('Order <uuid> at <hex> (hash <hex>)')
+    expect(normalizeFingerprintMessage('Connection refused')).toBe('Connection refused')
+  })
+
+  test('ignores volatile values', () => {
+    const a = new LiteError({ name: 'NotFound', code: 'E404', message: 'User 42 not found', stack: stackA })
+    const b = new LiteError({ name: 'NotFound', code: 'E404', message: 'User 43 not found', stack: stackB })
+    expect(fingerprint(a)).toMatch(/^[0-9a-f]{14}$/)
+    expect(fingerprint(a)).toBe(fingerprint(b))
+    expect(fingerprint(a, { includeLineNumbers: true })).not.toBe(fingerprint(b, { includeLineNumbers: true }))
+
+    const c = new LiteError({ name: 'NotFound', code: 'E405', message: 'User 42 not found', stack: stackA })
+    expect(fingerprint(a)).not.toBe(fingerprint(c))
+    const d = new LiteError({ name: 'NotFound', code: 'E404', message: 'Order 42 not found', stack: stackA })
+    expect(fingerprint(a)).not.toBe(fingerprint(d))
+    expect(fingerprint(a, { includeMessage: false })).toBe(fingerprint(d, { includeMessage: false }))
+  })
+
+  test('accepts ErrorLike, native errors and JSON', () => {
+    const native = new TypeError('Bad value 1')
+    native.stack = stackA
+    const like = new LiteError({ name: 'TypeError', message: 'Bad value 2', stack: stackB })
+    const json = errorToJsonLike(native, { includeStack: true })
+    const frames = errorToJsonLike(native, { includeStack: true, stackFrames: true })
+    expect(fingerprint(native)).toBe(fingerprint(like))
+    expect(fingerprint(native)).toBe(fingerprint(json))
+    expect(fingerprint(native)).toBe(fingerprint(frames))
+  })
+
+  test('cause chain', () => {
+    const make = (causeCode: string) => new BaseError({
+      name: 'ApiError',
+      cause: new LiteError({ name: 'DbError', code: causeCode, cause: new Error('timeout') })
+    })
+    expect(fingerprint(make('E1'))).toBe(fingerprint(make('E1')))
+    expect(fingerprint(make('E1'))).not.toBe(fingerprint(make('E2')))
+    expect(fingerprint(make('E1'), { maxCauseDepth: 0 })).toBe(fingerprint(make('E2'), { maxCauseDepth: 0 }))
+
+    const circular: Record<string, any> = { name: 'Loop' }
+    circular['cause'] = circular
+    expect(fingerprint(circular)).toMatch(/^[0-9a-f]{14}$/)
+  })
+})
@@ -0,0 +1,191 @@
+import type { TNullish } from './types.ts'
+import { isErrorLike } from './serialization.ts'
+import { cyrb53 } from './hash.ts'
+import { type TStackFrame, parseStackTrace } from './stack.ts'
+
+const _RE_UUID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi
+const _RE_HEX = /\b(?:0x[0-9a-f]+|(?=[0-9a-f]*\d)[0-9a-f]{8,})\b/gi
+const _RE_QUOTED = /"[^"]*"|'[^']*'|`[^`]*`/g
+const _RE_NUMBER = /\d+(?:\.\d+)?/g
+const _RE_SPACES = /\s+/g
+const _RE_PATH_SEP = /[\\/]/
+const _RE_QUERY = /[?#].*$/
+
+/**
+ * Опции {@link fingerprint()}.
+ */
+type TFingerprintOptions = {
+  /**
+   * Количество верхних кадров стека каждой ошибки цепочки. По умолчанию `5`. `min:0, max:64`.
+   */
+  maxFrames?: TNullish | number
+  /**
+   * Глубина обхода цепочки `cause`. По умолчанию `4`. `0` - учитывается только сама ошибка. `min:0, max:16`.
+   */
+  maxCauseDepth?: TNullish | number
+  /**
+   * Учитывать ли нормализованное сообщение ошибки. По умолчанию `true`.
+   */
+  includeMessage?: TNullish | boolean
+  /**
+   * Учитывать ли номера строк и колонок кадров. По умолчанию `false`, так как они меняются с каждой сборкой.
+   */
+  includeLineNumbers?: TNullish | boolean
+}
+
+type _TFingerprintParams = {
+  readonly maxFrames: number
+  readonly maxCauseDepth: number
+  readonly includeMessage: boolean
+  readonly includeLineNumbers: boolean
+}
+
+function _clampInt (value: any, min: number, max: number, defaultValue: number): number {
+  if (!Number.isSafeInteger(value)) {
+    return defaultValue
+  }
+  return Math.min(Math.max(value as number, min), max)
+}
+
+/**
+ * Заменяет в сообщении изменчивые значения(UUID, шестнадцатеричные идентификаторы, строки в кавычках и числа)
+ * заполнителями, чтобы одинаковые по сути ошибки имели одинаковое сообщение.
+ *
+ * @example
+ * ```ts
+ * normalizeFingerprintMessage('User "bob" with id 42 not found')
+ * // 'User <str> with id <num> not found'
+ * ```
+ */
+function normalizeFingerprintMessage (message: string): string {
+  return message
+    .replace(_RE_UUID, '<uuid>')
+    .replace(_RE_HEX, '<hex>')
+    .replace(_RE_QUOTED, '<str>')
+    .replace(_RE_NUMBER, '<num>')
+    .replace(_RE_SPACES, ' ')
+    .trim()
+}
+
+function _safeGet (obj: any, key: string): any {
+  try {
+    return obj[key]
+  } catch { /**/ }
+  return undefined
+}
+
+function _frameToString (frame: Partial<TStackFrame>, includeLineNumbers: boolean): string {
+  const name = (typeof frame.functionName === 'string') ? frame.functionName : '?'
+  let file = ''
+  if (typeof frame.file === 'string') {
+    // Путь к файлу зависит от машины сборки - учитывается только имя файла
+    const segments = frame.file.replace(_RE_QUERY, '').split(_RE_PATH_SEP)
+    file = segments[segments.length - 1] ?? ''
+  }
+  let result = `${name}@${file}`
+  if (includeLineNumbers && typeof frame.line === 'number') {
+    result += `:${frame.line}`
+    if (typeof frame.column === 'number') {
+      result += `:${frame.column}`
+    }
+  }
+  return result
+}
+
+function _readFrames (stack: any, params: _TFingerprintParams): string[] {
+  if (params.maxFrames === 0) {
+    return []
+  }
+  let frames: Partial<TStackFrame>[]
+  if (typeof stack === 'string') {
+    frames = parseStackTrace(stack)
+  }
+  else if (Array.isArray(stack)) {
+    // Результат errorToJsonLike() с опцией stackFrames
+    frames = stack.filter((item) => typeof item === 'object' && item !== null && ('functionName' in item || 'file' in item))
+  }
+  else {
+    return []
+  }
+  return frames.slice(0, params.maxFrames).map((frame) => _frameToString(frame, params.includeLineNumbers))
+}
+
+function _collectParts (error: any, params: _TFingerprintParams, depth: number, seen: Set<any>, parts: string[]): void {
+  if (typeof error !== 'object' || error === null) {
+    if (typeof error !== 'undefined') {
+      parts.push(`value:${typeof error}`)
+    }
+    return
+  }
+  if (seen.has(error)) {
+    return
+  }
+  seen.add(error)
+  if (Array.isArray(error)) {
+    parts.push(`collection:${error.length}`)
+    for (const item of error) {
+      _collectParts(item, params, depth, seen, parts)
+    }
+    return
+  }
+  // Для ErrorLike поля читаются из detail, для нативных ошибок и JSON напрямую
+  const source = isErrorLike(error) ? (_safeGet(error, 'detail') ?? error) : error
+  const name = _safeGet(source, 'name') ?? _safeGet(error, 'name')
+  const code = _safeGet(source, 'code')
+  const message = _safeGet(source, 'message') ?? _safeGet(error, 'message')
+  const stack = _safeGet(source, 'stack') ?? _safeGet(error, 'stack')
+
+  parts.push(`name:${typeof name === 'string' ? name : ''}`)
+  if (typeof code === 'string' || typeof code === 'number') {
+    parts.push(`code:${code}`)
+  }
+  if (params.includeMessage && typeof message === 'string' && message.length > 0) {
+    parts.push(`message:${normalizeFingerprintMessage(message)}`)
+  }
+  for (const frame of _readFrames(stack, params)) {
+    parts.push(`at:${frame}`)
+  }
+  if (depth < params.maxCauseDepth) {
+    const cause = _safeGet(source, 'cause') ?? _safeGet(error, 'cause')
+    if (typeof cause !== 'undefined' && cause !== null) {
+      parts.push('cause')
+      _collectParts(cause, params, depth + 1, seen, parts)
+    }
+  }
+}
+
+/**
+ * Вычисляет стабильный отпечаток ошибки для группировки и дедупликации одинаковых сбоев.
+ *
+ * В отпечаток входят имя ошибки, `code`, нормализованное сообщение({@link normalizeFingerprintMessage()}), верхние
+ * кадры стека без путей к каталогам и номеров строк и, рекурсивно, цепочка `cause`. Функция принимает
+ * {@link ErrorLike}, нативные ошибки и результат {@link errorToJsonLike()}, в том числе со стеком в виде кадров.
+ *
+ * Хеш реализован на TypeScript и дает одинаковый результат в любом окружении.
+ *
+ * @param error   Любая ошибка.
+ * @param options Опции {@link TFingerprintOptions}.
+ * @returns Строка из 14 шестнадцатеричных символов.
+ *
+ * @example
+ * ```ts
+ * fingerprint(new Error('User 42 not found')) === fingerprint(new Error('User 43 not found'))
+ * ```
+ */
+function fingerprint (error: any, options?: TNullish | TFingerprintOptions): string {
+  const params: _TFingerprintParams = {
+    maxFrames: _clampInt(options?.maxFrames, 0, 64, 5),
+    maxCauseDepth: _clampInt(options?.maxCauseDepth, 0, 16, 4),
+    includeMessage: options?.includeMessage !== false,
+    includeLineNumbers: options?.includeLineNumbers === true
+  }
+  const parts: string[] = []
+  _collectParts(error, params, 0, new Set(), parts)
+  return cyrb53(parts.join('\n'))
+}
+
+export {
+  type TFingerprintOptions,
+  normalizeFingerprintMessage,
+  fingerprint
+}
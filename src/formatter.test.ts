@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError, ErrorCollection } from './errors.ts'
+import { errorToString } from './serialization.ts'
+import { writeTextInto } from './writer.ts'
+//
+import { TextFormatter } from './formatter.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+const json = {
+  name: 'AppError',
+  message: 'line one\nline two',
+  code: 'E0058',
+  details: [{ field: 'email', ok: false }, null, 42],
+  cause: { name: 'TypeError', message: 'fetch failed' }
+}
+
+describe('formatter', () => {
+  test('default options match writeTextInto', () => {
+    let expected = ''
+    writeTextInto(json, (chunk) => { expected += chunk })
+    expect(new TextFormatter().format(json)).toBe(expected)
+  })
+
+  test('indent and keyOrder', () => {
+    const formatter = new TextFormatter({ indent: 4, keyOrder: ['code', 'name', 'missing'] })
+    expect(formatter.format({ name: 'E', message: 'a\nb', code: 1, cause: { message: 'c' } })).toBe([
+      'code: 1',
+      'name: E',
+      'message: a',
+      '    b',
+      'cause:',
+      '    message: c'
+    ].join('\n'))
+    const sorted = new TextFormatter({ indent: 0, keyOrder: (a, b) => a.localeCompare(b) })
+    expect(sorted.format({ b: 1, a: { d: 2, c: 3 } })).toBe('a:\nc: 3\nd: 2\nb: 1')
+  })
+
+  test('maxWidth', () => {
+    const formatter = new TextFormatter({ maxWidth: 20 })
+    expect(formatter.format({ message: 'the quick brown fox jumps over', id: 'abcdefghijklmnopqrstuvwxyz' })).toBe([
+      'message: the quick',
+      '  brown fox jumps',
+      '  over',
+      'id: abcdefghijklmnop',
+      '  qrstuvwxyz'
+    ].join('\n'))
+  })
+
+  test('compact', () => {
+    const formatter = new TextFormatter({ compact: true })
+    expect(formatter.format(json)).toBe('AppError [E0058]: line one line two (cause: TypeError: fetch failed)')
+    expect(formatter.format({ message: 'm', cause: 'reason' })).toBe('Error: m (cause: reason)')
+    expect(formatter.formatArray([{ name: 'A', message: 'a' }, { name: 'B' }])).toBe('[0] A: a\n[1] B')
+  })
+
+  test('renderValue', () => {
+    const formatter = new TextFormatter({
+      renderValue: (value, key, path) => {
+        if (key === 'details') {
+          return `${(value as unknown[]).length} items`
+        }
+        if (path.join('.') === 'cause.message') {
+          return String(value).toUpperCase()
+        }
+        if (key === 'name') {
+          throw new Error('ignored')
+        }
+        return undefined
+      }
+    })
+    expect(formatter.format(json)).toBe([
+      'name: AppError',
+      'message: line one',
+      '  line two',
+      'code: E0058',
+      'details: 3 items',
+      'cause:',
+      '  name: TypeError',
+      '  message: FETCH FAILED'
+    ].join('\n'))
+  })
+
+  test('errorToString and ErrorCollection.toStringWith', () => {
+    const formatter = new TextFormatter({ compact: true })
+    const error = new AppError({ message: 'Request failed', code: 'E0058', cause: new TypeError('fetch failed') })
+    expect(errorToString(error, { formatter })).toBe('AppError [E0058]: Request failed (cause: TypeError: fetch failed)')
+    expect(error.toStringWith({ formatter })).toBe('AppError [E0058]: Request failed (cause: TypeError: fetch failed)')
+    const collection = new ErrorCollection([error, new AppError({ message: 'second' })])
+    expect(collection.toStringWith({ formatter })).toBe([
+      '[0] AppError [E0058]: Request failed (cause: TypeError: fetch failed)',
+      '[1] AppError: second'
+    ].join('\n'))
+    expect(collection.toStringWith()).toBe(collection.toStringWith({ formatter: new TextFormatter() }))
+  })
+})
@@ -0,0 +1,358 @@
+import type {
+  TNullish,
+  TJsonObject,
+  TJsonArray,
+  TJsonLike
+} from './types.ts'
+import type { TPathSegment } from './paths.ts'
+import type { TWriterSink } from './writer.ts'
+import { writeCausedByInto } from './causedby.ts'
+
+/**
+ * Пользовательское представление значения. Возврат строки заменяет стандартный вывод значения, `undefined` оставляет
+ * стандартный вывод.
+ *
+ * @param value Значение поля или элемента массива.
+ * @param key   Имя поля или индекс элемента в виде `[0]`.
+ * @param path  Путь значения от корня, например `['cause', 'details', 0]`.
+ */
+type TTextFormatterValueRenderer = (value: TJsonLike, key: string, path: readonly TPathSegment[]) => undefined | string
+
+/**
+ * Порядок полей объекта: список имен, которые выводятся первыми в указанном порядке, или функция сравнения имен.
+ */
+type TTextFormatterKeyOrder = readonly string[] | ((a: string, b: string) => number)
+
+/**
+ * Опции {@link TextFormatter}.
+ */
+type TTextFormatterOptions = {
+  /**
+   * Количество пробелов отступа одного уровня. По умолчанию `2`. `min:0, max:8`.
+   */
+  indent?: TNullish | number
+  /**
+   * Порядок полей {@link TTextFormatterKeyOrder}. По умолчанию поля выводятся в порядке сериализации.
+   */
+  keyOrder?: TNullish | TTextFormatterKeyOrder
+  /**
+   * Максимальная ширина строки. Более длинные строки переносятся по пробелам или, если пробела нет, разрываются.
+   * По умолчанию `null` - без переноса. `min:16, max:4096`.
+   */
+  maxWidth?: TNullish | number
+  /**
+   * Однострочный формат `AppError [E0058]: message (cause: TypeError: message)`. Выводятся только `name`, `code`,
+   * `message` и цепочка `cause`. По умолчанию `false`.
+   */
+  compact?: TNullish | boolean
+  /**
+   * Формат цепочки `Caused by:` {@link writeCausedByInto()}, в котором причины выводятся последовательными секциями.
+   * Опции `indent`, `keyOrder`, `maxWidth` и `renderValue` к нему не применяются. По умолчанию `false`.
+   */
+  causedBy?: TNullish | boolean
+  /**
+   * Пользовательское представление значений {@link TTextFormatterValueRenderer}. По умолчанию `null`.
+   */
+  renderValue?: TNullish | TTextFormatterValueRenderer
+}
+
+const _RE_WHITESPACE = /\s*\n\s*/g
+
+function _normalizeInt (value: any, min: number, max: number, defaultValue: number): number {
+  return Number.isSafeInteger(value) ? Math.min(Math.max(value, min), max) : defaultValue
+}
+
+function _isObject (value: TJsonLike | undefined): value is TJsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+class _FormatterLines {
+  protected readonly _sink: TWriterSink
+  protected readonly _maxWidth: null | number
+  protected _first = true
+
+  constructor(sink: TWriterSink, maxWidth: null | number) {
+    this._sink = sink
+    this._maxWidth = maxWidth
+  }
+
+  protected _emit (value: string): void {
+    this._sink(this._first ? value : `\n${value}`)
+    this._first = false
+  }
+
+  /**
+   * Записывает строку `head + text`. Перенос не разрывает `head`, продолжение начинается с отступа `cont`.
+   */
+  line (head: string, text: string, cont: string): void {
+    let line = head + text
+    const width = this._maxWidth
+    if (width === null) {
+      this._emit(line)
+      return
+    }
+    let minBreak = head.length
+    while (line.length > width) {
+      let pos = line.lastIndexOf(' ', width)
+      let skip = 1
+      if (pos <= minBreak) {
+        // Каждый перенос должен продвинуться хотя бы на один символ
+        pos = Math.max(width, minBreak + 1)
+        skip = 0
+      }
+      this._emit(line.substring(0, pos))
+      line = cont + line.substring(pos + skip)
+      minBreak = cont.length
+    }
+    this._emit(line)
+  }
+}
+
+/**
+ * Настраиваемый текстовый формат результата сериализации для {@link errorToString()} и
+ * {@link ErrorCollection.toStringWith()}. Передается опцией {@link TSerializationOptions.formatter}.
+ *
+ * Без опций результат совпадает со стандартным форматом `key: value` с отступом в два пробела.
+ *
+ * @example
+ * ```ts
+ * const formatter = new TextFormatter({ compact: true })
+ * errorToString(error, { formatter })
+ * // AppError [E0058]: Request failed (cause: TypeError: fetch failed)
+ * ```
+ */
+class TextFormatter {
+  protected readonly _indent: number
+  protected readonly _unit: string
+  protected readonly _keyOrder: null | TTextFormatterKeyOrder
+  protected readonly _maxWidth: null | number
+  protected readonly _compact: boolean
+  protected readonly _causedBy: boolean
+  protected readonly _renderValue: null | TTextFormatterValueRenderer
+
+  constructor(options?: TNullish | TTextFormatterOptions) {
+    this._indent = _normalizeInt(options?.indent, 0, 8, 2)
+    this._unit = ' '.repeat(this._indent)
+    const keyOrder = options?.keyOrder
+    this._keyOrder = (Array.isArray(keyOrder) || typeof keyOrder === 'function') ? keyOrder : null
+    this._maxWidth = Number.isSafeInteger(options?.maxWidth) ? _normalizeInt(options?.maxWidth, 16, 4096, 0) : null
+    this._compact = !!options?.compact
+    this._causedBy = !!options?.causedBy
+    this._renderValue = typeof options?.renderValue === 'function' ? options.renderValue : null
+  }
+
+  get indent (): number { return this._indent }
+  get keyOrder (): null | TTextFormatterKeyOrder { return this._keyOrder }
+  get maxWidth (): null | number { return this._maxWidth }
+  get compact (): boolean { return this._compact }
+  get causedBy (): boolean { return this._causedBy }
+  get renderValue (): null | TTextFormatterValueRenderer { return this._renderValue }
+
+  /**
+   * Записывает объект ошибки в приемник фрагментов.
+   *
+   * @param metaFieldName Имя поля метаданных, с которым выполнялась сериализация. Используется форматом `causedBy`.
+   */
+  writeInto (objectSource: TJsonObject, sink: TWriterSink, metaFieldName?: TNullish | string): void {
+    if (this._compact) {
+      sink(this._compactError(objectSource, []))
+    }
+    else if (this._causedBy) {
+      writeCausedByInto(objectSource, sink, metaFieldName)
+    }
+    else {
+      this._writeObject(objectSource, new _FormatterLines(sink, this._maxWidth), 0, [])
+    }
+  }
+
+  /**
+   * Записывает массив ошибок, например результат {@link ErrorCollection.toJsonWith()}. В однострочном формате каждая
+   * ошибка занимает отдельную строку.
+   *
+   * @param metaFieldName Имя поля метаданных, с которым выполнялась сериализация. Используется форматом `causedBy`.
+   */
+  writeArrayInto (arraySource: TJsonArray, sink: TWriterSink, metaFieldName?: TNullish | string): void {
+    if (this._causedBy && !this._compact) {
+      writeCausedByInto(arraySource, sink, metaFieldName)
+      return
+    }
+    const lines = new _FormatterLines(sink, this._maxWidth)
+    if (!this._compact) {
+      this._writeArray(arraySource, lines, 0, [])
+      return
+    }
+    for (let i = 0; i < arraySource.length; ++i) {
+      const item = arraySource[i] as TJsonLike
+      const text = _isObject(item) ? this._compactError(item, [i]) : (this._compactValue(item, `[${i}]`, [i]) ?? '')
+      lines.line('', `[${i}] ${text}`, '')
+    }
+  }
+
+  /**
+   * Приводит объект ошибки к строке.
+   */
+  format (objectSource: TJsonObject, metaFieldName?: TNullish | string): string {
+    let result = ''
+    this.writeInto(objectSource, (chunk) => { result += chunk }, metaFieldName)
+    return result
+  }
+
+  /**
+   * Приводит массив ошибок к строке.
+   */
+  formatArray (arraySource: TJsonArray, metaFieldName?: TNullish | string): string {
+    let result = ''
+    this.writeArrayInto(arraySource, (chunk) => { result += chunk }, metaFieldName)
+    return result
+  }
+
+  protected _keys (objectSource: TJsonObject): string[] {
+    const keys = Object.keys(objectSource)
+    const order = this._keyOrder
+    if (typeof order === 'function') {
+      try {
+        return keys.sort(order)
+      } catch { /**/ }
+    }
+    else if (order) {
+      const head = order.filter((key) => Object.hasOwn(objectSource, key))
+      const rest = keys.filter((key) => !head.includes(key))
+      return [...new Set(head), ...rest]
+    }
+    return keys
+  }
+
+  protected _render (value: TJsonLike, key: string, path: readonly TPathSegment[]): undefined | string {
+    if (this._renderValue) {
+      try {
+        const result = this._renderValue(value, key, path)
+        if (typeof result === 'string') {
+          return result
+        }
+      } catch { /**/ }
+    }
+    return undefined
+  }
+
+  protected _writeString (indent: string, key: string, value: string, lines: _FormatterLines): void {
+    const cont = indent + this._unit
+    const parts = value.split('\n')
+    lines.line(`${indent}${key}: `, parts[0] as string, cont)
+    // Продолжение строки смещается на один уровень
+    for (let i = 1; i < parts.length; ++i) {
+      lines.line(cont, parts[i] as string, cont)
+    }
+  }
+
+  protected _writeProp (key: string, value: TJsonLike, lines: _FormatterLines, level: number, path: TPathSegment[]): void {
+    const indent = this._unit.repeat(level)
+    const rendered = this._render(value, key, path)
+    if (typeof rendered === 'string') {
+      this._writeString(indent, key, rendered, lines)
+      return
+    }
+    if (value === null) {
+      lines.line(`${indent}${key}: `, 'null', indent + this._unit)
+      return
+    }
+    switch (typeof value) {
+      case 'number':
+      case 'boolean':
+        lines.line(`${indent}${key}: `, String(value), indent + this._unit)
+        return
+      case 'string':
+        this._writeString(indent, key, value, lines)
+        return
+    }
+    if (typeof value !== 'object') {
+      return
+    }
+    lines.line(`${indent}${key}:`, '', indent + this._unit)
+    if (Array.isArray(value)) {
+      this._writeArray(value, lines, level + 1, path)
+    }
+    else {
+      this._writeObject(value, lines, level + 1, path)
+    }
+  }
+
+  protected _writeObject (objectSource: TJsonObject, lines: _FormatterLines, level: number, path: TPathSegment[]): void {
+    for (const key of this._keys(objectSource)) {
+      path.push(key)
+      this._writeProp(key, objectSource[key] as TJsonLike, lines, level, path)
+      path.pop()
+    }
+  }
+
+  protected _writeArray (arraySource: TJsonArray, lines: _FormatterLines, level: number, path: TPathSegment[]): void {
+    for (let i = 0; i < arraySource.length; ++i) {
+      path.push(i)
+      this._writeProp(`[${i}]`, arraySource[i] as TJsonLike, lines, level, path)
+      path.pop()
+    }
+  }
+
+  protected _compactValue (value: TJsonLike | undefined, key: string, path: readonly TPathSegment[]): undefined | string {
+    if (typeof value === 'undefined') {
+      return undefined
+    }
+    const rendered = this._render(value, key, path)
+    if (typeof rendered === 'string') {
+      return rendered.replace(_RE_WHITESPACE, ' ')
+    }
+    switch (typeof value) {
+      case 'string':
+        return value.replace(_RE_WHITESPACE, ' ')
+      case 'number':
+      case 'boolean':
+        return String(value)
+    }
+    return value === null ? 'null' : JSON.stringify(value)
+  }
+
+  protected _compactError (objectSource: TJsonObject, path: TPathSegment[]): string {
+    // Ошибка, превысившая глубину, записана заместителем `{ __meta: { kind: 'error', name, message } }`
+    const keys = Object.keys(objectSource)
+    if (keys.length === 1 && !Object.hasOwn(objectSource, 'name') && !Object.hasOwn(objectSource, 'message')) {
+      const meta = objectSource[keys[0] as string]
+      if (_isObject(meta) && meta['kind'] === 'error') {
+        return this._compactError(meta, path)
+      }
+    }
+    const at = (key: string): undefined | string => {
+      path.push(key)
+      const value = this._compactValue(objectSource[key], key, path)
+      path.pop()
+      return value
+    }
+    let result = at('name') ?? 'Error'
+    const code = at('code')
+    if (typeof code !== 'undefined') {
+      result += ` [${code}]`
+    }
+    const message = at('message')
+    if (typeof message !== 'undefined') {
+      result += `: ${message}`
+    }
+    const cause = objectSource['cause']
+    if (_isObject(cause)) {
+      path.push('cause')
+      result += ` (cause: ${this._compactError(cause, path)})`
+      path.pop()
+    }
+    else {
+      const value = at('cause')
+      if (typeof value !== 'undefined') {
+        result += ` (cause: ${value})`
+      }
+    }
+    return result
+  }
+}
+
+export {
+  type TTextFormatterValueRenderer,
+  type TTextFormatterKeyOrder,
+  type TTextFormatterOptions,
+  TextFormatter
+}
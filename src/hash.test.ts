@@ -0,0 +1,12 @@
+import { describe, test, expect } from 'vitest'
+//
+import { cyrb53 } from './hash.ts'
+
+describe('hash', () => {
+  test('cyrb53', () => {
+    expect(cyrb53('')).toMatch(/^[0-9a-f]{14}$/)
+    expect(cyrb53('abc')).toBe(cyrb53('abc'))
+    expect(cyrb53('abc')).not.toBe(cyrb53('abd'))
+    expect(cyrb53('abc', 1)).not.toBe(cyrb53('abc'))
+  })
+})
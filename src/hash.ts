@@ -0,0 +1,27 @@
+/**
+ * 53-битный хеш [cyrb53](https://github.com/bryc/code/blob/master/jshash/experimental/cyrb53.js). Не является
+ * криптографическим, но имеет хорошее распределение и дает одинаковый результат в любом окружении.
+ *
+ * @param str  Строка.
+ * @param seed Необязательное начальное значение.
+ * @returns Строка из 14 шестнадцатеричных символов.
+ */
+function cyrb53 (str: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+  for (let i = 0; i < str.length; ++i) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507)
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507)
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0)
+  return hash.toString(16).padStart(14, '0')
+}
+
+export {
+  cyrb53
+}
@@ -1,6 +1,50 @@
+export {
+  ANSI_STYLES,
+  type TAnsiStream,
+  type TAnsiRenderOptions,
+  isAnsiColorEnabled,
+  writeAnsiInto,
+  errorToAnsi
+} from './ansi.ts'
 export {
   captureStackTrace
 } from './capture.ts'
+export {
+  type TCatalogFields,
+  type TErrorCatalogEntry,
+  type TCatalogParams,
+  type TCatalogDetail,
+  type TCatalogFactory,
+  type TCatalogErrorClass,
+  type TErrorCatalog,
+  type TErrorCatalogOptions,
+  catalogFields,
+  defineErrorCatalog,
+  resetErrorCatalogCodes
+} from './catalog.ts'
+export {
+  writeCausedByInto,
+  errorToCausedByString
+} from './causedby.ts'
+export {
+  type TCauseClass,
+  type TCausePredicate,
+  iterateCauses,
+  iterateCauseChain,
+  rootCause,
+  findCause,
+  hasCode,
+  is,
+  as
+} from './chain.ts'
+export {
+  TO_JSON_LIKE_ID,
+  TO_JSON_LIKE
+} from './constants.ts'
+export {
+  type TDeserializationOptions,
+  errorFromJsonLike
+} from './deserialization.ts'
 export {
   defineErrorLike,
   ErrorLike,
@@ -8,6 +52,72 @@ export {
   BaseError,
   ErrorCollection
 } from './errors.ts'
+export {
+  type TFingerprintOptions,
+  fingerprint
+} from './fingerprint.ts'
+export {
+  type TTextFormatterValueRenderer,
+  type TTextFormatterKeyOrder,
+  type TTextFormatterOptions,
+  TextFormatter
+} from './formatter.ts'
+export {
+  type TTypeInspectorResult,
+  type TTypeInspector,
+  type TTypeInspectorPredicate,
+  TypeInspectors
+} from './inspectors.ts'
+export {
+  JSON_RPC_ERROR_CODES,
+  type TJsonRpcError,
+  type TJsonRpcOptions,
+  errorToJsonRpc,
+  errorFromJsonRpc
+} from './jsonrpc.ts'
+export {
+  type TPluralMessage,
+  type TLocaleMessage,
+  type TLocaleMessages,
+  type TLocaleCatalogOptions,
+  LocaleCatalog,
+  localizeDetail,
+  localizeError
+} from './locale.ts'
+export {
+  type TPathSegment,
+  type TPathSelector,
+  parsePathSelector,
+  matchPathSelector,
+  formatPath
+} from './paths.ts'
+export {
+  PROBLEM_DETAILS_CONTENT_TYPE,
+  type TProblemDetails,
+  type TProblemDetailsOptions,
+  errorToProblemDetails,
+  errorFromProblemDetails
+} from './problemdetails.ts'
+export {
+  PUBLIC_LEVEL_MESSAGES,
+  type TPublicJson,
+  type TPublicJsonOptions,
+  toPublicJson
+} from './public.ts'
+export {
+  type TRedactionPattern,
+  type TRedactionReplacer,
+  type TRedactionOptions,
+  REDACTION_VALUE_PATTERNS,
+  redactWithHash,
+  Redaction
+} from './redaction.ts'
+export {
+  type TErrorClass,
+  type TErrorFactory,
+  type TErrorRegistryOptions,
+  ErrorRegistry
+} from './registry.ts'
 export {
   type TSerializationOptions,
   SerializationParameters,
@@ -16,8 +126,25 @@ export {
 export {
   isErrorLike,
   errorToJsonLike,
-  errorToString
+  errorToJsonLikeWithReport,
+  errorToString,
+  errorWriteJson,
+  errorWriteText
 } from './serialization.ts'
+export {
+  type TStackFrame,
+  parseStackTrace,
+  formatStackFrame,
+  type TStackPattern,
+  type TStackShapeOptions,
+  shapeStackTrace
+} from './stack.ts'
+export {
+  type TTemplateValue,
+  type TTemplateKeys,
+  type TTemplateParams,
+  interpolate
+} from './template.ts'
 export {
   type TNullish,
   type TJsonLike,
@@ -25,7 +152,25 @@ export {
   type IErrorDetail,
   type IErrorLike,
   type IErrorCollection,
+  type IJsonLikeProjection,
   type TMetaValue,
+  type TMetaCollection,
+  type TMetaBinary,
   type TMetaTruncated,
-  type TMetaPlaceholder
+  type TMetaPlaceholder,
+  type TSerializationReport
 } from './types.ts'
+export {
+  type TWriterSink,
+  StringSink,
+  writeJsonInto,
+  writeTextInto
+} from './writer.ts'
+export {
+  type TWrapContext,
+  type TWrapOptions,
+  wrap,
+  lookupCode,
+  rootCode,
+  breadcrumb
+} from './wrap.ts'
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError, BaseError } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+import { errorFromJsonLike } from './deserialization.ts'
+//
+import { TypeInspectors } from './inspectors.ts'
+
+class Money {
+  readonly amount: string
+  readonly currency: string
+  constructor(amount: string, currency: string) {
+    this.amount = amount
+    this.currency = currency
+  }
+}
+
+class ObjectId {
+  readonly id: string
+  constructor(id: string) {
+    this.id = id
+  }
+  toHexString (): string {
+    return this.id
+  }
+}
+
+describe('inspectors', () => {
+  test('TypeInspectors', () => {
+    const inspectors = new TypeInspectors()
+    expect(inspectors.size).toBe(0)
+    expect(() => inspectors.register(null as any, () => undefined)).toThrow(BaseError)
+    expect(() => inspectors.registerPredicate(() => true, null as any)).toThrow(BaseError)
+
+    inspectors
+      .register(Money, () => { throw new Error('broken') })
+      .register(Money, (money) => money.currency === 'XXX' ? undefined : { json: `${money.amount} ${money.currency}` })
+      .registerPredicate((value) => 'toHexString' in value, () => ({ json: 'any' }))
+    expect(inspectors.size).toBe(3)
+    expect(inspectors.inspect(new Money('1', 'USD'))).toStrictEqual({ json: '1 USD' })
+    expect(inspectors.inspect(new Money('1', 'XXX'))).toBe(undefined)
+    expect(inspectors.inspect(new ObjectId('a'))).toStrictEqual({ json: 'any' })
+    expect(inspectors.inspect({})).toBe(undefined)
+  })
+
+  test('serialization uses inspectors ahead of objects', () => {
+    const inspectors = new TypeInspectors()
+      .register(Money, (money) => ({ meta: { type: 'custom', name: 'Money', value: `${money.amount} ${money.currency}` } }))
+      .register(ObjectId, (id) => ({ json: { $oid: id.toHexString(), long: 'x'.repeat(20), a: 1, b: 2 } }))
+    const detail: Record<string, any> = {
+      price: new Money('12.50', 'USD'),
+      owner: new ObjectId('65f1c0ffee'),
+      nested: { ids: [new ObjectId('1')] }
+    }
+    const error = new LiteError(detail)
+    expect(errorToJsonLike(error, { inspectors, maxDepth: 4, maxItems: 3, maxStringLength: 8 })).toStrictEqual({
+      name: 'LiteError',
+      price: { __meta: { type: 'custom', name: 'Money', value: '12.50 US' } },
+      owner: { $oid: '65f1c0ff', long: 'xxxxxxxx', a: 1, __meta: { kind: 'object', total: 4, truncated: 1 } },
+      __meta: { kind: 'object', total: 4, truncated: 1 }
+    })
+    expect(errorToJsonLike(new LiteError<any>({ owner: new ObjectId('1') }), { inspectors, maxDepth: 1 })).toStrictEqual({
+      name: 'LiteError',
+      owner: { __meta: { kind: 'object', length: 4 } }
+    })
+    // Массивы значений заместителя подчиняются ограничениям количества элементов и глубины
+    const tags = new TypeInspectors().register(Money, () => ({ meta: { type: 'array', value: [1, 2, 3, [4, [5]]] } }))
+    expect(errorToJsonLike(new LiteError<any>({ price: new Money('1', 'EUR') }), { inspectors: tags, maxItems: 2, maxDepth: 3 })).toStrictEqual({
+      name: 'LiteError',
+      price: { __meta: { type: 'array', value: [1, 2, { __meta: { kind: 'array', total: 4, truncated: 2 } }] } }
+    })
+    expect(errorToJsonLike(new LiteError<any>({ price: new Money('1', 'EUR') }), { inspectors: tags, maxDepth: 4 })).toStrictEqual({
+      name: 'LiteError',
+      price: { __meta: { type: 'array', value: [1, 2, 3, [4, { __meta: { kind: 'array', length: 1 } }]] } }
+    })
+    // Без инспекторов объект сериализуется как обычно
+    expect(errorToJsonLike(new LiteError<any>({ price: new Money('1', 'EUR') }))).toStrictEqual({
+      name: 'LiteError',
+      price: { amount: '1', currency: 'EUR' }
+    })
+    // Значение заместителя custom восстанавливается строкой
+    const json = errorToJsonLike(new LiteError<any>({ price: new Money('1', 'EUR') }), { inspectors })
+    expect((errorFromJsonLike(json).detail as any).price).toBe('1 EUR')
+  })
+})
@@ -0,0 +1,106 @@
+import type {
+  TJsonLike,
+  TMetaValue
+} from './types.ts'
+import { BaseError } from './errors.ts'
+
+/**
+ * Результат {@link TTypeInspector}:
+ *
+ *  + `{ json }` - Значение будет сериализовано как обычный JSON с учетом всех ограничений.
+ *  + `{ meta }` - Значение будет записано заместителем `{ __meta: { type, value } }`.
+ */
+type TTypeInspectorResult = { json: TJsonLike } | { meta: TMetaValue }
+
+/**
+ * Функция приведения значения пользовательского типа к JSON. Возврат `undefined` передает значение следующему
+ * подходящему инспектору или стандартной сериализации.
+ */
+type TTypeInspector<T = any> = (value: T) => undefined | TTypeInspectorResult
+
+/**
+ * Предикат выбора значений для {@link TTypeInspector}.
+ */
+type TTypeInspectorPredicate = (value: object) => boolean
+
+/**
+ * Реестр инспекторов пользовательских типов(денежные суммы, десятичные числа, идентификаторы и т.п.).
+ *
+ * Инспекторы проверяются в порядке регистрации до стандартной обработки объекта. Инспектор, зарегистрированный по
+ * конструктору, выбирается проверкой `instanceof`, по предикату - результатом предиката. Результат `{ json }`
+ * сериализуется повторно, поэтому на него распространяются все ограничения {@link TSerializationOptions}.
+ *
+ * @example
+ * ```ts
+ * const inspectors = new TypeInspectors()
+ *   .register(Money, (money) => ({ meta: { type: 'custom', name: 'Money', value: `${money.amount} ${money.currency}` } }))
+ *   .registerPredicate((value) => 'toHexString' in value, (id) => ({ json: id.toHexString() }))
+ *
+ * error.toJsonWith({ inspectors })
+ * ```
+ */
+class TypeInspectors {
+  protected readonly _entries: { match: (value: object) => boolean, inspector: TTypeInspector }[] = []
+
+  /**
+   * Регистрирует инспектор значений, являющихся экземплярами класса.
+   *
+   * @param ctor      Конструктор класса.
+   * @param inspector Функция приведения значения.
+   */
+  register<T extends object> (ctor: abstract new (...args: any[]) => T, inspector: TTypeInspector<T>): this {
+    if (typeof ctor !== 'function' || typeof inspector !== 'function') {
+      throw new BaseError({ message: 'Failed to register a type inspector. The constructor and the inspector must be functions.' })
+    }
+    this._entries.push({ match: (value) => value instanceof ctor, inspector })
+    return this
+  }
+
+  /**
+   * Регистрирует инспектор значений, выбранных предикатом. Удобно для типов из разных копий библиотек, где проверка
+   * `instanceof` ненадежна.
+   *
+   * @param predicate Предикат выбора значений.
+   * @param inspector Функция приведения значения.
+   */
+  registerPredicate (predicate: TTypeInspectorPredicate, inspector: TTypeInspector): this {
+    if (typeof predicate !== 'function' || typeof inspector !== 'function') {
+      throw new BaseError({ message: 'Failed to register a type inspector. The predicate and the inspector must be functions.' })
+    }
+    this._entries.push({ match: predicate, inspector })
+    return this
+  }
+
+  /**
+   * Количество зарегистрированных инспекторов.
+   */
+  get size (): number {
+    return this._entries.length
+  }
+
+  /**
+   * Применяет первый подходящий инспектор, вернувший результат. Исключения инспекторов и предикатов игнорируются.
+   *
+   * @returns Результат инспектора или `undefined`, если значение должно быть обработано стандартно.
+   */
+  inspect (value: object): undefined | TTypeInspectorResult {
+    for (const { match, inspector } of this._entries) {
+      try {
+        if (match(value)) {
+          const result = inspector(value)
+          if (typeof result === 'object' && (('json' in result) || ('meta' in result))) {
+            return result
+          }
+        }
+      } catch { /**/ }
+    }
+    return undefined
+  }
+}
+
+export {
+  type TTypeInspectorResult,
+  type TTypeInspector,
+  type TTypeInspectorPredicate,
+  TypeInspectors
+}
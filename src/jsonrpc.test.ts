@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError, BaseError } from './errors.ts'
+//
+import {
+  JSON_RPC_ERROR_CODES,
+  isJsonRpcReservedCode,
+  errorToJsonRpc,
+  errorFromJsonRpc
+} from './jsonrpc.ts'
+
+describe('jsonrpc', () => {
+  test('isJsonRpcReservedCode', () => {
+    expect(isJsonRpcReservedCode(-32768)).toBe(true)
+    expect(isJsonRpcReservedCode(-32000)).toBe(true)
+    expect(isJsonRpcReservedCode(JSON_RPC_ERROR_CODES.invalidParams)).toBe(true)
+    expect(isJsonRpcReservedCode(-32769)).toBe(false)
+    expect(isJsonRpcReservedCode(-31999)).toBe(false)
+    expect(isJsonRpcReservedCode(0)).toBe(false)
+  })
+
+  test('errorToJsonRpc maps codes', () => {
+    const codes = { E_NOT_FOUND: 404, E_PARAMS: JSON_RPC_ERROR_CODES.invalidParams }
+
+    expect(errorToJsonRpc(new LiteError({ message: 'missing', code: 'E_NOT_FOUND' }), { codes })).toStrictEqual({
+      code: 404,
+      message: 'missing',
+      data: { name: 'LiteError', message: 'missing', code: 'E_NOT_FOUND' }
+    })
+    // Таблица может использовать зарезервированные коды
+    expect(errorToJsonRpc(new LiteError({ code: 'E_PARAMS' }), { codes, includeData: false })).toStrictEqual({
+      code: -32602,
+      message: 'LiteError'
+    })
+    expect(errorToJsonRpc(new LiteError({ code: 7 }), { codes: new Map([[7, 1007]]), includeData: false }).code).toBe(1007)
+    // Целочисленный код используется напрямую, но не из зарезервированного диапазона
+    expect(errorToJsonRpc(new LiteError({ code: 42 }), { includeData: false })).toStrictEqual({ code: 42, message: 'LiteError' })
+    expect(errorToJsonRpc(new LiteError({ code: -32601 }), { includeData: false }).code).toBe(-32603)
+    expect(errorToJsonRpc(new LiteError({ code: 'UNKNOWN' }), { defaultCode: -1, includeData: false }).code).toBe(-1)
+    expect(errorToJsonRpc(null)).toStrictEqual({ code: -32603, message: 'Internal error', data: { __meta: { type: 'null', value: null } } })
+  })
+
+  test('errorToJsonRpc truncates data', () => {
+    const error = new Error('0123456789abcdef')
+    expect(errorToJsonRpc(error, { serialization: { maxStringLength: 8 } })).toStrictEqual({
+      code: -32603,
+      message: '01234567',
+      data: { name: 'Error', message: '01234567' }
+    })
+  })
+
+  test('errorFromJsonRpc', () => {
+    const rpcError = errorToJsonRpc(new LiteError({ name: 'AppError', message: 'fail', code: 'E1', cause: new LiteError({ message: 'db' }) }))
+    const error = errorFromJsonRpc(rpcError)
+    expect(error.name).toBe('AppError')
+    expect(error.detail).toStrictEqual({ name: 'AppError', message: 'fail', code: 'E1', cause: expect.any(LiteError) })
+
+    expect(errorFromJsonRpc({ code: -32601, message: 'Method not found' }).detail).toStrictEqual({
+      name: 'JsonRpcError',
+      message: 'Method not found',
+      code: -32601
+    })
+    expect(errorFromJsonRpc({ code: 1, message: 'm', data: [1, 2] }).detail).toStrictEqual({
+      name: 'JsonRpcError',
+      message: 'm',
+      code: 1,
+      data: [1, 2]
+    })
+    expect(errorFromJsonRpc({ code: 1, message: 'm', data: { reason: 'x' } }, { useBaseError: true })).toBeInstanceOf(BaseError)
+    expect(errorFromJsonRpc('text').detail).toStrictEqual({ name: 'LiteError', cause: 'text' })
+  })
+})
@@ -0,0 +1,180 @@
+import type {
+  TNullish,
+  TJsonLike
+} from './types.ts'
+import type { ErrorLike } from './errors.ts'
+import {
+  type TSerializationOptions,
+  type SerializationParameters,
+  ensureSerializationParameters
+} from './options.ts'
+import { errorToJsonLike } from './serialization.ts'
+import { type TDeserializationOptions, errorFromJsonLike } from './deserialization.ts'
+
+/**
+ * Предопределенные коды ошибок [JSON-RPC 2.0](https://www.jsonrpc.org/specification#error_object).
+ */
+const JSON_RPC_ERROR_CODES: {
+  readonly parseError: -32700
+  readonly invalidRequest: -32600
+  readonly methodNotFound: -32601
+  readonly invalidParams: -32602
+  readonly internalError: -32603
+} = Object.freeze({
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603
+} as const)
+
+/**
+ * Объект ошибки [JSON-RPC 2.0](https://www.jsonrpc.org/specification#error_object).
+ */
+type TJsonRpcError = {
+  code: number
+  message: string
+  data?: TJsonLike
+}
+
+/**
+ * Опции {@link errorToJsonRpc()}.
+ */
+type TJsonRpcOptions = {
+  /**
+   * Опции сериализации {@link TSerializationOptions} или {@link SerializationParameters} для поля `data`.
+   */
+  serialization?: TNullish | TSerializationOptions | SerializationParameters
+  /**
+   * Таблица преобразования кодов ошибок(`IErrorDetail.code`) к целочисленным кодам JSON-RPC. Ключом может быть
+   * строка или число. Значения таблицы могут использовать зарезервированный диапазон.
+   */
+  codes?: TNullish | Readonly<Record<string, number>> | ReadonlyMap<string | number, number>
+  /**
+   * Код для ошибок, чей код отсутствует в таблице и не может быть использован напрямую. По умолчанию `-32603`
+   * (Internal error).
+   */
+  defaultCode?: TNullish | number
+  /**
+   * Включить ли результат сериализации ошибки в поле `data`. По умолчанию `true`.
+   */
+  includeData?: TNullish | boolean
+}
+
+/**
+ * Принадлежит ли код диапазону `-32768..-32000`, зарезервированному спецификацией JSON-RPC.
+ */
+function isJsonRpcReservedCode (code: number): boolean {
+  return code >= -32768 && code <= -32000
+}
+
+function _mapCode (code: any, codes: TJsonRpcOptions['codes']): null | number {
+  if (!codes || (typeof code !== 'string' && typeof code !== 'number')) {
+    return null
+  }
+  let value: any
+  try {
+    value = (codes instanceof Map)
+      ? (codes.get(code) ?? codes.get(String(code)))
+      : (codes as Record<string, number>)[String(code)]
+  } catch { /**/ }
+  return Number.isSafeInteger(value) ? value as number : null
+}
+
+/**
+ * Приводит любую ошибку к объекту ошибки [JSON-RPC 2.0](https://www.jsonrpc.org/specification#error_object).
+ *
+ * Код ошибки выбирается в порядке:
+ *
+ *  1. Значение таблицы {@link TJsonRpcOptions.codes} для `code` ошибки.
+ *  2. Собственный целочисленный `code` ошибки, если он не принадлежит зарезервированному диапазону `-32768..-32000`.
+ *  3. {@link TJsonRpcOptions.defaultCode} или `-32603`.
+ *
+ * Поле `data` содержит результат {@link errorToJsonLike()} с ограничениями опций сериализации, включая исходный
+ * `code` ошибки.
+ *
+ * @param error   Любая ошибка.
+ * @param options Опции {@link TJsonRpcOptions}.
+ */
+function errorToJsonRpc (error: any, options?: TNullish | TJsonRpcOptions): TJsonRpcError {
+  const params = ensureSerializationParameters(options?.serialization)
+  const json = errorToJsonLike(error, params) as Record<string, any>
+
+  const sourceCode = json['code']
+  let code = _mapCode(sourceCode, options?.codes)
+  if (code === null) {
+    if (Number.isSafeInteger(sourceCode) && !isJsonRpcReservedCode(sourceCode)) {
+      code = sourceCode as number
+    }
+    else {
+      const defaultCode = options?.defaultCode
+      code = Number.isSafeInteger(defaultCode) ? defaultCode as number : JSON_RPC_ERROR_CODES.internalError
+    }
+  }
+
+  let message = json['message']
+  if (typeof message !== 'string' || message.length === 0) {
+    const name = json['name']
+    message = (typeof name === 'string' && name.length > 0) ? name : 'Internal error'
+  }
+
+  const rpcError: TJsonRpcError = { code, message }
+  if (options?.includeData !== false && Object.keys(json).length > 0) {
+    rpcError.data = json
+  }
+  return rpcError
+}
+
+/**
+ * Восстанавливает ошибку из объекта ошибки [JSON-RPC 2.0](https://www.jsonrpc.org/specification#error_object).
+ *
+ * Если поле `data` является объектом, ошибка восстанавливается из него функцией {@link errorFromJsonLike()}, а
+ * отсутствующие `message` и `code` берутся из объекта ошибки. Иначе создается ошибка с именем `'JsonRpcError'`, а
+ * значение `data`, если оно есть, записывается в одноименное поле деталей.
+ *
+ * @param rpcError Объект ошибки JSON-RPC.
+ * @param options  Опции {@link TDeserializationOptions}.
+ */
+function errorFromJsonRpc (rpcError: any, options?: TNullish | TDeserializationOptions): ErrorLike {
+  if (typeof rpcError !== 'object' || rpcError === null || Array.isArray(rpcError)) {
+    return errorFromJsonLike(rpcError, options)
+  }
+  let code: any
+  let message: any
+  let data: any
+  try {
+    code = rpcError.code
+    message = rpcError.message
+    data = rpcError.data
+  } catch { /**/ }
+
+  let json: Record<string, any>
+  if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    json = { ...data }
+    if (typeof json['name'] !== 'string' || json['name'].length === 0) {
+      json['name'] = 'JsonRpcError'
+    }
+  }
+  else {
+    json = { name: 'JsonRpcError' }
+    if (typeof data !== 'undefined') {
+      json['data'] = data
+    }
+  }
+  if (typeof json['message'] !== 'string' && typeof message === 'string') {
+    json['message'] = message
+  }
+  if (typeof json['code'] === 'undefined' && Number.isSafeInteger(code)) {
+    json['code'] = code
+  }
+  return errorFromJsonLike(json, options)
+}
+
+export {
+  JSON_RPC_ERROR_CODES,
+  type TJsonRpcError,
+  type TJsonRpcOptions,
+  isJsonRpcReservedCode,
+  errorToJsonRpc,
+  errorFromJsonRpc
+}
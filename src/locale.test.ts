@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError, ErrorCollection } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  LocaleCatalog,
+  localizeDetail,
+  localizeError
+} from './locale.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+function createCatalog (): LocaleCatalog {
+  return new LocaleCatalog()
+    .add('en', {
+      'files.locked': { '=0': 'No files are locked', one: '{count} file is locked', other: '{count} files are locked' },
+      'user.notFound': 'User {id} not found'
+    })
+    .add('ru', {
+      'files.locked': { one: '{count} файл заблокирован', few: '{count} файла заблокированы', other: '{count} файлов заблокировано' }
+    })
+}
+
+describe('locale', () => {
+  test('LocaleCatalog', () => {
+    const catalog = createCatalog()
+    expect(catalog.format('files.locked', { count: 1 }, 'ru')).toBe('1 файл заблокирован')
+    expect(catalog.format('files.locked', { count: 3 }, 'ru-RU')).toBe('3 файла заблокированы')
+    expect(catalog.format('files.locked', { count: 5 }, 'ru')).toBe('5 файлов заблокировано')
+    expect(catalog.format('files.locked', { count: 0 }, 'en')).toBe('No files are locked')
+    expect(catalog.format('files.locked', { count: 2 })).toBe('2 files are locked')
+    expect(catalog.format('files.locked', { count: 'many' }, 'en')).toBe('many files are locked')
+    // Ключ без перевода берется из языка по умолчанию
+    expect(catalog.format('user.notFound', { id: 42 }, 'ru')).toBe('User 42 not found')
+    expect(catalog.format('unknown', null, 'ru')).toBe(null)
+    expect(catalog.has('user.notFound', 'de')).toBe(true)
+    expect(new LocaleCatalog({ fallbackLocale: 'ru' }).has('user.notFound')).toBe(false)
+
+    const custom = new LocaleCatalog({ pluralParam: 'n' }).add('en', { items: { one: 'one item', other: '{n} items' } })
+    expect(custom.format('items', { n: 1 })).toBe('one item')
+    expect(custom.format('items', { count: 1 })).toBe('{n} items')
+
+    // Некорректные сообщения пропускаются
+    const invalid = new LocaleCatalog().add('en', { empty: null as any, plural: { one: 'item' } as any })
+    expect(invalid.has('empty')).toBe(false)
+    expect(invalid.has('plural')).toBe(false)
+    const forms = new LocaleCatalog().add('en', { files: { one: 5, other: '{count} files' } as any })
+    expect(forms.format('files', { count: 1 })).toBe('1 files')
+  })
+
+  test('localizeDetail and localizeError', () => {
+    const catalog = createCatalog()
+    const error = new AppError({ message: 'Files are locked', messageKey: 'files.locked', messageParams: { count: 2 } })
+    expect(localizeDetail(error.detail, catalog, 'ru')).toBe('2 файла заблокированы')
+    expect(localizeDetail({ message: 'text' }, catalog, 'ru')).toBe(null)
+    expect(localizeError(error, catalog, 'en')).toBe('2 files are locked')
+    expect(localizeError(new AppError({ message: 'text', messageKey: 'unknown' }), catalog, 'ru')).toBe('text')
+    expect(localizeError({ messageKey: 'user.notFound', messageParams: { id: 1 } }, catalog)).toBe('User 1 not found')
+    expect(localizeError(null, catalog)).toBe('')
+  })
+
+  test('serialization options', () => {
+    const localeCatalog = createCatalog()
+    const error = new AppError({ message: 'Files are locked', messageKey: 'files.locked', messageParams: { count: 1 }, status: 423 })
+    // Без языка ключ и параметры выводятся как есть
+    expect(errorToJsonLike(error, { localeCatalog })).toStrictEqual({
+      name: 'AppError',
+      message: 'Files are locked',
+      messageKey: 'files.locked',
+      messageParams: { count: 1 },
+      status: 423
+    })
+    expect(errorToJsonLike(error, { localeCatalog, locale: 'ru' })).toStrictEqual({
+      name: 'AppError',
+      message: '1 файл заблокирован',
+      status: 423
+    })
+    expect(errorToJsonLike(error, { localeCatalog, locale: 'ru', exclude: 'message' })).toStrictEqual({ name: 'AppError', status: 423 })
+    expect(errorToJsonLike(error, { localeCatalog, locale: 'ru', precompile: true, maxItems: 2 })).toStrictEqual({
+      name: 'AppError',
+      message: '1 файл заблокирован',
+      __meta: { kind: 'object', total: 3, truncated: 1 }
+    })
+
+    // Сообщение может быть задано только ключом
+    const keyed = new AppError({ messageKey: 'user.notFound', messageParams: { id: 7 } })
+    expect(keyed.toJsonWith({ localeCatalog, locale: 'en' })).toStrictEqual({ name: 'AppError', message: 'User 7 not found' })
+    expect(keyed.toStringWith({ localeCatalog, locale: 'en' })).toBe('name: AppError\nmessage: User 7 not found')
+    expect(new ErrorCollection([keyed]).toStringWith({ localeCatalog, locale: 'en' })).toBe('[0]:\n  name: AppError\n  message: User 7 not found')
+
+    // Без перевода ключа поля выводятся как есть
+    const unknown = new AppError({ message: 'Quota exceeded', messageKey: 'quota.exceeded', messageParams: { limit: 5 } })
+    const expected = { name: 'AppError', message: 'Quota exceeded', messageKey: 'quota.exceeded', messageParams: { limit: 5 } }
+    expect(errorToJsonLike(unknown, { localeCatalog, locale: 'ru' })).toStrictEqual(expected)
+    expect(errorToJsonLike(unknown, { localeCatalog, locale: 'ru', precompile: true })).toStrictEqual(expected)
+  })
+})
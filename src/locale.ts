@@ -0,0 +1,236 @@
+import type { TNullish, IErrorDetail } from './types.ts'
+import { isErrorLike } from './serialization.ts'
+import { interpolate } from './template.ts'
+
+/**
+ * Сообщение с формами множественного числа. Форма выбирается по числовому параметру
+ * {@link TLocaleCatalogOptions.pluralParam}: сначала точное значение `'=N'`, затем категория `Intl.PluralRules`
+ * языка сообщения и, наконец, обязательная форма `other`.
+ *
+ * @example
+ * ```ts
+ * { '=0': 'No files', one: '{count} file', few: '{count} files', other: '{count} files' }
+ * ```
+ */
+type TPluralMessage = { readonly [K in Exclude<Intl.LDMLPluralRule, 'other'>]?: string } & {
+  readonly other: string
+  readonly [exact: `=${number}`]: string
+}
+
+/**
+ * Сообщение каталога: шаблон с подстановками `{name}` или формы множественного числа {@link TPluralMessage}.
+ */
+type TLocaleMessage = string | TPluralMessage
+
+/**
+ * Сообщения одного языка по ключам.
+ */
+type TLocaleMessages = Readonly<Record<string, TLocaleMessage>>
+
+/**
+ * Опции {@link LocaleCatalog}.
+ */
+type TLocaleCatalogOptions = {
+  /**
+   * Язык, сообщения которого используются, если ключ не найден для запрошенного языка. По умолчанию `'en'`.
+   */
+  fallbackLocale?: TNullish | string
+  /**
+   * Параметр, выбирающий форму множественного числа. По умолчанию `'count'`.
+   */
+  pluralParam?: TNullish | string
+}
+
+const _hasOwnProperty = Object.prototype.hasOwnProperty
+
+/**
+ * Каталог переводов сообщений ошибок.
+ *
+ * Ошибка хранит ключ сообщения `detail.messageKey` и параметры `detail.messageParams`, а каталог приводит их к тексту
+ * на нужном языке. Поиск ключа идет от точного языка к базовому, например `'ru-RU'` и `'ru'`, а затем к языку
+ * {@link TLocaleCatalogOptions.fallbackLocale}.
+ *
+ * @example
+ * ```ts
+ * const catalog = new LocaleCatalog()
+ *   .add('en', { 'files.locked': { one: '{count} file is locked', other: '{count} files are locked' } })
+ *   .add('ru', { 'files.locked': { one: '{count} файл заблокирован', few: '{count} файла заблокированы', other: '{count} файлов заблокировано' } })
+ *
+ * catalog.format('files.locked', { count: 3 }, 'ru') // '3 файла заблокированы'
+ * ```
+ */
+class LocaleCatalog {
+  protected readonly _messages: Map<string, Map<string, TLocaleMessage>> = new Map()
+  protected readonly _plurals: Map<string, Intl.PluralRules> = new Map()
+  protected readonly _fallbackLocale: string
+  protected readonly _pluralParam: string
+
+  constructor(options?: TNullish | TLocaleCatalogOptions) {
+    const fallbackLocale = options?.fallbackLocale
+    const pluralParam = options?.pluralParam
+    this._fallbackLocale = (typeof fallbackLocale === 'string' && fallbackLocale.length > 0) ? fallbackLocale : 'en'
+    this._pluralParam = (typeof pluralParam === 'string' && pluralParam.length > 0) ? pluralParam : 'count'
+  }
+
+  get fallbackLocale (): string { return this._fallbackLocale }
+
+  /**
+   * Добавляет сообщения языка. Сообщения с существующими ключами заменяются.
+   *
+   * @param locale   Тег языка, например `'en'` или `'ru-RU'`.
+   * @param messages Сообщения по ключам.
+   */
+  add (locale: string, messages: TLocaleMessages): this {
+    let target = this._messages.get(locale)
+    if (!target) {
+      target = new Map()
+      this._messages.set(locale, target)
+    }
+    for (const key of Object.keys(messages)) {
+      // Сообщения из непроверенных источников, например JSON, могут не соответствовать типу
+      const message: unknown = messages[key]
+      if (typeof message === 'string' || (typeof message === 'object' && message !== null && typeof (message as TPluralMessage).other === 'string')) {
+        target.set(key, message as TLocaleMessage)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Есть ли ключ для языка с учетом базового языка и {@link TLocaleCatalogOptions.fallbackLocale}.
+   */
+  has (key: string, locale?: TNullish | string): boolean {
+    return this._resolve(key, locale) !== null
+  }
+
+  /**
+   * Приводит ключ и параметры к тексту на выбранном языке.
+   *
+   * @param key    Ключ сообщения.
+   * @param params Параметры шаблона и формы множественного числа.
+   * @param locale Язык. По умолчанию {@link TLocaleCatalogOptions.fallbackLocale}.
+   * @returns Текст или `null`, если ключ не найден.
+   */
+  format (key: string, params?: TNullish | Readonly<Record<string, unknown>>, locale?: TNullish | string): null | string {
+    const resolved = this._resolve(key, locale)
+    if (!resolved) {
+      return null
+    }
+    const [found, message] = resolved
+    const template = typeof message === 'string' ? message : this._selectPlural(message, found, params)
+    return interpolate(template, params)
+  }
+
+  protected _candidates (locale: TNullish | string): string[] {
+    const candidates: string[] = []
+    for (const tag of [locale, this._fallbackLocale]) {
+      if (typeof tag !== 'string' || tag.length === 0) {
+        continue
+      }
+      const parts = tag.split('-')
+      for (let i = parts.length; i > 0; --i) {
+        const candidate = parts.slice(0, i).join('-')
+        if (!candidates.includes(candidate)) {
+          candidates.push(candidate)
+        }
+      }
+    }
+    return candidates
+  }
+
+  protected _resolve (key: string, locale: TNullish | string): null | [string, TLocaleMessage] {
+    for (const candidate of this._candidates(locale)) {
+      const message = this._messages.get(candidate)?.get(key)
+      if (typeof message !== 'undefined') {
+        return [candidate, message]
+      }
+    }
+    return null
+  }
+
+  protected _selectPlural (message: TPluralMessage, locale: string, params: TNullish | Readonly<Record<string, unknown>>): string {
+    const value = (params && _hasOwnProperty.call(params, this._pluralParam)) ? params[this._pluralParam] : undefined
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return message.other
+    }
+    const exact = message[`=${value}`]
+    if (typeof exact === 'string') {
+      return exact
+    }
+    let rules = this._plurals.get(locale)
+    if (!rules) {
+      try {
+        rules = new Intl.PluralRules(locale)
+      } catch {
+        // Неизвестный тег языка
+        rules = new Intl.PluralRules('en')
+      }
+      this._plurals.set(locale, rules)
+    }
+    // Формы из непроверенных источников могут не быть строками
+    const form: unknown = message[rules.select(value)]
+    return typeof form === 'string' ? form : message.other
+  }
+}
+
+/**
+ * Приводит детали ошибки с ключом сообщения `messageKey` к тексту на выбранном языке.
+ *
+ * @param detail  Детали ошибки.
+ * @param catalog Каталог переводов.
+ * @param locale  Язык.
+ * @returns Текст или `null`, если детали не содержат ключа или ключ не найден.
+ */
+function localizeDetail (detail: IErrorDetail, catalog: LocaleCatalog, locale?: TNullish | string): null | string {
+  try {
+    const key = detail.messageKey
+    if (typeof key !== 'string' || key.length === 0) {
+      return null
+    }
+    const params = detail.messageParams
+    return catalog.format(key, (typeof params === 'object' && params !== null) ? params : null, locale)
+  } catch { /**/ }
+  return null
+}
+
+/**
+ * Возвращает сообщение ошибки на выбранном языке. Если перевод не найден, возвращается исходное `message`, что
+ * позволяет хранить в `message` текст для журналов, а пользователю показывать перевод.
+ *
+ * @param anyValue {@link ErrorLike}, {@link Error} или объект деталей.
+ * @param catalog  Каталог переводов.
+ * @param locale   Язык.
+ *
+ * @example
+ * ```ts
+ * const error = new AppError({ message: 'File is locked', messageKey: 'files.locked', messageParams: { count: 1 } })
+ * localizeError(error, catalog, 'ru') // '1 файл заблокирован'
+ * ```
+ */
+function localizeError (anyValue: unknown, catalog: LocaleCatalog, locale?: TNullish | string): string {
+  let detail: unknown = anyValue
+  try {
+    if (isErrorLike(anyValue)) {
+      detail = anyValue.detail
+    }
+    if (typeof detail === 'object' && detail !== null) {
+      const text = localizeDetail(detail, catalog, locale)
+      if (text !== null) {
+        return text
+      }
+      const message: unknown = (detail as IErrorDetail).message
+      return typeof message === 'string' ? message : ''
+    }
+  } catch { /**/ }
+  return ''
+}
+
+export {
+  type TPluralMessage,
+  type TLocaleMessage,
+  type TLocaleMessages,
+  type TLocaleCatalogOptions,
+  LocaleCatalog,
+  localizeDetail,
+  localizeError
+}
@@ -60,6 +60,27 @@ describe('options', () => {
     expect([...norm2.exclude!]).toStrictEqual(['fieldB', 'stack'])
   })
 
+  test('normalizeSerializationOptions: separates path selectors from flat names', () => {
+    const options: TSerializationOptions = {
+      include: ['message', 'cause.code', 'a..b'],
+      exclude: ['*.password', 'details[*].value']
+    }
+    const norm = normalizeSerializationOptions(options)
+    expect([...norm.include!]).toStrictEqual(['message'])
+    expect(norm.includePaths).toStrictEqual([['cause', 'code']])
+    expect([...norm.exclude!]).toStrictEqual(['stack'])
+    expect(norm.excludePaths).toStrictEqual([['*', 'password'], ['details', '[*]', 'value']])
+
+    const excludeOnly = new SerializationParameters({ exclude: options.exclude })
+    expect(excludeOnly.test('password')).toBe(true)
+    expect(excludeOnly.test('password', ['request'])).toBe(false)
+    const params = new SerializationParameters(options)
+    expect(params.test('password')).toBe(false)
+    expect(params.test('cause')).toBe(true)
+    expect(params.test('code')).toBe(false)
+    expect(params.test('code', ['cause'])).toBe(true)
+  })
+
   test('normalizeSerializationOptions: handles includeStack priority and stack in include/exclude', () => {
     // includeStack true has priority, removes 'stack' from exclude if present
     const options1: TSerializationOptions = {
@@ -127,6 +148,13 @@ describe('options', () => {
     expect(normalizeSerializationOptions({ metaFieldName: 123 as any }).metaFieldName).toBe('__meta')
   })
 
+  test('normalizeSerializationOptions: typeFieldName defaults to null and cannot be metaFieldName', () => {
+    expect(normalizeSerializationOptions({}).typeFieldName).toBe(null)
+    expect(normalizeSerializationOptions({ typeFieldName: '' }).typeFieldName).toBe(null)
+    expect(normalizeSerializationOptions({ typeFieldName: '__meta' }).typeFieldName).toBe(null)
+    expect(normalizeSerializationOptions({ typeFieldName: '__type' }).typeFieldName).toBe('__type')
+  })
+
   test('normalizeSerializationOptions: filters non-string items in include/exclude', () => {
     const options: TSerializationOptions = {
       include: ['valid', 123 as any, null as any],
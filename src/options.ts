@@ -1,5 +1,27 @@
 import type { TNullish, IErrorDetail } from './types.js'
 import type { ErrorLike } from './errors.ts'
+import {
+  type TStackPattern,
+  type TStackShapeOptions,
+  normalizeStackPatterns
+} from './stack.ts'
+import {
+  type TPathSegment,
+  type TPathSelector,
+  isPathSelector,
+  parsePathSelector,
+  matchPathSelector,
+  allowPathSelector
+} from './paths.ts'
+import type { TypeInspectors } from './inspectors.ts'
+import {
+  type TRedactionOptions,
+  type Redaction,
+  normalizeRedaction
+} from './redaction.ts'
+import { DetailPlanCache } from './plans.ts'
+import type { TextFormatter } from './formatter.ts'
+import type { LocaleCatalog } from './locale.ts'
 
 const _lazyGlobalParams = {
   get ins (): SerializationParameters {
@@ -52,6 +74,53 @@ function _normalizeStringSet (value: any): null | ReadonlySetImpl {
   return null
 }
 
+/**
+ * Извлекает из множества имен селекторы путей. Недопустимые селекторы удаляются.
+ */
+function _extractPathSelectors (set: null | ReadonlySetImpl): null | readonly TPathSelector[] {
+  if (!set) {
+    return null
+  }
+  const selectors: TPathSelector[] = []
+  for (const item of [...set]) {
+    if (isPathSelector(item)) {
+      set._internalDelete(item)
+      const selector = parsePathSelector(item)
+      if (selector) {
+        selectors.push(selector)
+      }
+    }
+  }
+  return selectors.length > 0 ? selectors : null
+}
+
+function _normalizeInspectors (value: any): null | TypeInspectors {
+  try {
+    if (typeof value === 'object' && value !== null && typeof value.inspect === 'function' && value.size > 0) {
+      return value as TypeInspectors
+    }
+  } catch { /**/ }
+  return null
+}
+
+function _normalizeFormatter (value: any): null | TextFormatter {
+  try {
+    if (typeof value === 'object' && value !== null && typeof value.writeInto === 'function' && typeof value.writeArrayInto === 'function') {
+      return value as TextFormatter
+    }
+  } catch { /**/ }
+  return null
+}
+
+function _normalizeLocaleCatalog (value: any): null | LocaleCatalog {
+  try {
+    if (typeof value === 'object' && value !== null && typeof value.format === 'function') {
+      return value as LocaleCatalog
+    }
+  } catch { /**/ }
+  return null
+}
+
 function _normalizeInt (value: any, min: number, max: number, defaultValue: number): number {
   if (Number.isSafeInteger(value)) {
     if (value < min) {
@@ -83,6 +152,30 @@ type TSerializationOptions = {
    *    инициализации, что делает строку еще более бесполезной.
    */
   keepStackHeader?: TNullish | boolean
+  /**
+   * Записать ли `stack` массивом разобранных кадров {@link TStackFrame} вместо строки. По умолчанию `false`. Количество
+   * кадров ограничено {@link TSerializationOptions.maxItems}, строки кадров - {@link TSerializationOptions.maxStringLength}.
+   */
+  stackFrames?: TNullish | boolean
+  /**
+   * Удалить из стека кадры, строка которых содержит подстроку или соответствует регулярному выражению. По умолчанию
+   * `null`. Например `['node:internal']`.
+   */
+  stackDrop?: TNullish | TStackPattern | (readonly TStackPattern[])
+  /**
+   * Свернуть последовательные кадры, соответствующие шаблонам, в одну строку `... N frames hidden`. По умолчанию
+   * `null`. Например `['node_modules']`. Для {@link TSerializationOptions.stackFrames} свернутые кадры удаляются.
+   */
+  stackCollapse?: TNullish | TStackPattern | (readonly TStackPattern[])
+  /**
+   * Корневой каталог проекта. Абсолютные пути стека внутри этого каталога переписываются относительными, что делает
+   * стек независимым от машины сборки. По умолчанию `null`.
+   */
+  stackRoot?: TNullish | string
+  /**
+   * Удалить из путей стека префиксы `file://`. По умолчанию `false`.
+   */
+  stackStripFileUrl?: TNullish | boolean
   /**
    * Максимальная вложенность структур. По умолчанию `2`. `min:1, max:16`.
    */
@@ -102,6 +195,17 @@ type TSerializationOptions = {
    * строке, кроме: `'name'`, `'code'`, `'level'` и полей с типом {@link Date}.
    */
   maxStringLength?: TNullish | number
+  /**
+   * Приблизительный максимальный размер результата `JSON.stringify()` в байтах UTF-8. По умолчанию `null` - размер не
+   * ограничен. `min:256, max:16777216`. При превышении сначала удаляются пользовательские поля, затем сокращается стек
+   * и сообщения ошибок цепочки `cause`, а затем удаляются остальные поля. Поля `name`, `message` и `code` верхнего
+   * уровня сохраняются всегда, а `message` сокращается не короче {@link MIN_BUDGET_MESSAGE_LENGTH}, поэтому результат
+   * может превысить бюджет.
+   *
+   * Бюджет применяется к готовому результату после обхода ошибки: остальные лимиты по-прежнему определяют, сколько
+   * данных будет прочитано.
+   */
+  maxBytes?: TNullish | number
   /**
    * Игнорировать пользовательские поля `null` пустые строки `''` или пустые массивы с объектами. По умолчанию `false`.
    * К именам этих полей не относятся {@link IErrorDetail}, которые строго типизированы и не могут быть пустыми строками
@@ -111,10 +215,16 @@ type TSerializationOptions = {
   /**
    * Включить только указанные поля и, если {@link TSerializationOptions.includeStack}, добавить поля `'stack'`. Поле
    * `'stack'` может быть указано в любом месте опций. По умолчанию включаются все поля(кроме `'stack'`).
+   *
+   * Простые имена полей применяются на любой глубине. Строки с точкой, скобками или `*` являются селекторами путей от
+   * корня ошибки: `'cause.response.headers'`, `'*.password'`, `'details[*].value'`, `'**.token'`. Сегмент `*`
+   * соответствует любому полю, `[*]` - любому элементу массива, `**` - любому количеству вложенных полей. Селектор
+   * включения разрешает так же всех предков поля и все его вложенные поля.
    */
   include?: TNullish | string | string[] | (readonly string[])
   /**
-   * Исключить поля с этими именами. Правила исключения имеют приоритет над {@link TSerializationOptions.include}.
+   * Исключить поля с этими именами или селекторами путей. Правила исключения имеют приоритет над
+   * {@link TSerializationOptions.include}.
    */
   exclude?: TNullish | string | string[] | (readonly string[])
   /**
@@ -126,6 +236,61 @@ type TSerializationOptions = {
    * Исключить ли из результата метаинформацию об усеченных объекта и массивах или о превышении глубины. По умолчанию `false`.
    */
   ignoreMeta?: TNullish | boolean
+  /**
+   * Заменять ли циклические ссылки на объекты-предки заместителем `{ kind: 'circular', ref: '$.path' }` с путем предка
+   * в выводе. Общие объекты без цикла при этом сериализуются в каждом вхождении. По умолчанию `false` - все повторные
+   * ссылки на уже сериализованные объекты удаляются, в том числе ссылки на общие объекты без цикла. Заместитель
+   * считается элементом {@link TSerializationOptions.maxTotalItems} и не добавляется при
+   * {@link TSerializationOptions.ignoreMeta}.
+   */
+  markCircular?: TNullish | boolean
+  /**
+   * Имя поля для ключа типа ошибки, зарегистрированного в {@link ErrorRegistry}. По умолчанию `null` - ключ типа не
+   * записывается. Поле добавляется первым в объект ошибки и позволяет восстановить ошибку независимо от `name`.
+   */
+  typeFieldName?: TNullish | string
+  /**
+   * Правила скрытия чувствительных данных {@link TRedactionOptions} или {@link Redaction}. По умолчанию `null`.
+   * В отличие от {@link TSerializationOptions.exclude}, имена полей проверяются на любой глубине, в том числе внутри
+   * `cause`, а шаблоны значений применяются к строкам, сообщениям и стеку.
+   */
+  redact?: TNullish | TRedactionOptions | Redaction
+  /**
+   * Реестр инспекторов пользовательских типов {@link TypeInspectors}. По умолчанию `null`. Инспекторы применяются ко
+   * всем объектам, кроме {@link Date} и {@link RegExp}, до стандартной обработки.
+   */
+  inspectors?: TNullish | TypeInspectors
+  /**
+   * Кодировка превью двоичных данных {@link TMetaBinary}. По умолчанию `'hex'`.
+   */
+  binaryEncoding?: TNullish | 'hex' | 'base64'
+  /**
+   * Кешировать план сериализации деталей {@link BaseError} для каждого класса ошибки. По умолчанию `false`.
+   *
+   * План содержит порядок полей и результаты проверок {@link TSerializationOptions.include}/`exclude` и скрытия имен
+   * полей. Кеш принадлежит экземпляру {@link SerializationParameters}, поэтому полезен только при повторном
+   * использовании одних параметров, например глобальных. Ошибки с набором полей, отличным от первого экземпляра
+   * класса, сериализуются обычным способом. Опция не действует при селекторах путей в `include` или `exclude`.
+   */
+  precompile?: TNullish | boolean
+  /**
+   * Текстовый формат {@link TextFormatter} для {@link errorToString()}, `toStringWith()` и {@link errorWriteText()}.
+   * По умолчанию `null` - поля выводятся строками `key: value` с отступом в два пробела.
+   */
+  formatter?: TNullish | TextFormatter
+  /**
+   * Каталог переводов {@link LocaleCatalog} для ошибок с ключом сообщения {@link IErrorDetail.messageKey}. По
+   * умолчанию `null`.
+   */
+  localeCatalog?: TNullish | LocaleCatalog
+  /**
+   * Язык сообщений ошибок с ключом {@link IErrorDetail.messageKey}. По умолчанию `null` - поля `message`,
+   * `messageKey` и `messageParams` выводятся как есть.
+   *
+   * Если язык и {@link localeCatalog} установлены, поле `message` заменяется переводом, а `messageKey` и
+   * `messageParams` не выводятся. Если перевод не найден, все три поля выводятся как есть.
+   */
+  locale?: TNullish | string
 }
 
 /**
@@ -134,15 +299,32 @@ type TSerializationOptions = {
 type TNormalizedSerializationOptions = {
   readonly includeStack: boolean
   readonly keepStackHeader: boolean
+  readonly stackFrames: boolean
+  readonly stackDrop: null | readonly TStackPattern[]
+  readonly stackCollapse: null | readonly TStackPattern[]
+  readonly stackRoot: null | string
+  readonly stackStripFileUrl: boolean
   readonly ignoreEmpty: boolean
   readonly maxDepth: number
   readonly maxItems: number
   readonly maxTotalItems: number
   readonly maxStringLength: number
+  readonly maxBytes: null | number
   readonly include: null | ReadonlySet<string>
   readonly exclude: null | ReadonlySet<string>
+  readonly includePaths: null | readonly TPathSelector[]
+  readonly excludePaths: null | readonly TPathSelector[]
   readonly metaFieldName: string
   readonly ignoreMeta: boolean
+  readonly markCircular: boolean
+  readonly typeFieldName: null | string
+  readonly redaction: null | Redaction
+  readonly inspectors: null | TypeInspectors
+  readonly binaryEncoding: 'hex' | 'base64'
+  readonly precompile: boolean
+  readonly formatter: null | TextFormatter
+  readonly localeCatalog: null | LocaleCatalog
+  readonly locale: null | string
 }
 
 /**
@@ -151,15 +333,32 @@ type TNormalizedSerializationOptions = {
 const DEFAULT_SERIALIZATION_OPTIONS: TNormalizedSerializationOptions = Object.freeze({
   includeStack: false,
   keepStackHeader: false,
+  stackFrames: false,
+  stackDrop: null,
+  stackCollapse: null,
+  stackRoot: null,
+  stackStripFileUrl: false,
   ignoreEmpty: false,
   maxDepth: 2,
   maxItems: 16,
   maxTotalItems: 128,
   maxStringLength: 512,
+  maxBytes: null,
   include: null,
   exclude: null,
+  includePaths: null,
+  excludePaths: null,
   metaFieldName: '__meta',
-  ignoreMeta: false
+  ignoreMeta: false,
+  markCircular: false,
+  typeFieldName: null,
+  redaction: null,
+  inspectors: null,
+  binaryEncoding: 'hex',
+  precompile: false,
+  formatter: null,
+  localeCatalog: null,
+  locale: null
 })
 
 /**
@@ -194,6 +393,8 @@ function normalizeSerializationOptions (options?: TNullish | TSerializationOptio
       include._internalDelete(item)
     }
   }
+  const includePaths = _extractPathSelectors(include)
+  const excludePaths = _extractPathSelectors(exclude)
   if (exclude?.has('stack')) {
     stack = false
   }
@@ -214,6 +415,14 @@ function normalizeSerializationOptions (options?: TNullish | TSerializationOptio
     exclude?._internalAdd('stack')
   }
   const keepStackHeader = !!rawOptions.get('keepStackHeader')
+  const stackFrames = !!rawOptions.get('stackFrames')
+  const stackDrop = normalizeStackPatterns(rawOptions.get('stackDrop'))
+  const stackCollapse = normalizeStackPatterns(rawOptions.get('stackCollapse'))
+  let stackRoot = rawOptions.get('stackRoot') as (null | string | undefined)
+  if (typeof stackRoot !== 'string' || stackRoot.length === 0) {
+    stackRoot = DEFAULT_SERIALIZATION_OPTIONS.stackRoot
+  }
+  const stackStripFileUrl = !!rawOptions.get('stackStripFileUrl')
 
   let ignoreEmpty = rawOptions.get('ignoreEmpty') as boolean
   if (typeof ignoreEmpty !== 'boolean') {
@@ -229,18 +438,45 @@ function normalizeSerializationOptions (options?: TNullish | TSerializationOptio
     ignoreMeta = DEFAULT_SERIALIZATION_OPTIONS.ignoreMeta
   }
 
+  let typeFieldName = rawOptions.get('typeFieldName') as (null | string | undefined)
+  if (typeof typeFieldName !== 'string' || typeFieldName.length === 0 || typeFieldName === metaFieldName) {
+    typeFieldName = DEFAULT_SERIALIZATION_OPTIONS.typeFieldName
+  }
+
+  let locale = rawOptions.get('locale') as (null | string | undefined)
+  if (typeof locale !== 'string' || locale.length === 0) {
+    locale = DEFAULT_SERIALIZATION_OPTIONS.locale
+  }
+
   return {
     includeStack,
     keepStackHeader,
+    stackFrames,
+    stackDrop,
+    stackCollapse,
+    stackRoot,
+    stackStripFileUrl,
     ignoreEmpty,
     maxDepth,
     maxItems,
     maxTotalItems,
     maxStringLength,
+    maxBytes: Number.isSafeInteger(rawOptions.get('maxBytes')) ? _normalizeInt(rawOptions.get('maxBytes'), 256, 16_777_216, 0) : DEFAULT_SERIALIZATION_OPTIONS.maxBytes,
     include,
     exclude,
+    includePaths,
+    excludePaths,
     metaFieldName,
-    ignoreMeta
+    ignoreMeta,
+    markCircular: !!rawOptions.get('markCircular'),
+    typeFieldName,
+    redaction: normalizeRedaction(rawOptions.get('redact')),
+    inspectors: _normalizeInspectors(rawOptions.get('inspectors')),
+    binaryEncoding: rawOptions.get('binaryEncoding') === 'base64' ? 'base64' : DEFAULT_SERIALIZATION_OPTIONS.binaryEncoding,
+    precompile: !!rawOptions.get('precompile'),
+    formatter: _normalizeFormatter(rawOptions.get('formatter')),
+    localeCatalog: _normalizeLocaleCatalog(rawOptions.get('localeCatalog')),
+    locale
   }
 }
 
@@ -250,15 +486,34 @@ function normalizeSerializationOptions (options?: TNullish | TSerializationOptio
 class SerializationParameters {
   protected readonly _includeStack: boolean
   protected readonly _keepStackHeader: boolean
+  protected readonly _stackFrames: boolean
+  protected readonly _stackDrop: null | readonly TStackPattern[]
+  protected readonly _stackCollapse: null | readonly TStackPattern[]
+  protected readonly _stackRoot: null | string
+  protected readonly _stackStripFileUrl: boolean
+  protected readonly _stackShape: null | TStackShapeOptions
   protected readonly _ignoreEmpty: boolean
   protected readonly _maxDepth: number
   protected readonly _maxItems: number
   protected readonly _maxTotalItems: number
   protected readonly _maxStringLength: number
+  protected readonly _maxBytes: null | number
   protected readonly _include: null | ReadonlySet<string> = null
   protected readonly _exclude: null | ReadonlySet<string> = null
+  protected readonly _includePaths: null | readonly TPathSelector[]
+  protected readonly _excludePaths: null | readonly TPathSelector[]
   protected readonly _metaFieldName: string
   protected readonly _ignoreMeta: boolean
+  protected readonly _markCircular: boolean
+  protected readonly _typeFieldName: null | string
+  protected readonly _redaction: null | Redaction
+  protected readonly _inspectors: null | TypeInspectors
+  protected readonly _binaryEncoding: 'hex' | 'base64'
+  protected readonly _precompile: boolean
+  protected readonly _detailPlans: null | DetailPlanCache
+  protected readonly _formatter: null | TextFormatter
+  protected readonly _localeCatalog: null | LocaleCatalog
+  protected readonly _locale: null | string
 
   constructor(options?: TNullish | TSerializationOptions) {
     const norm = (options === DEFAULT_SERIALIZATION_OPTIONS)
@@ -266,37 +521,111 @@ class SerializationParameters {
       : normalizeSerializationOptions(options)
     this._includeStack = norm.includeStack
     this._keepStackHeader = norm.keepStackHeader
+    this._stackFrames = norm.stackFrames
+    this._stackDrop = norm.stackDrop
+    this._stackCollapse = norm.stackCollapse
+    this._stackRoot = norm.stackRoot
+    this._stackStripFileUrl = norm.stackStripFileUrl
+    this._stackShape = (norm.stackDrop || norm.stackCollapse || norm.stackRoot || norm.stackStripFileUrl)
+      ? Object.freeze({ drop: norm.stackDrop, collapse: norm.stackCollapse, root: norm.stackRoot, stripFileUrl: norm.stackStripFileUrl })
+      : null
     this._ignoreEmpty = norm.ignoreEmpty
     this._maxDepth = norm.maxDepth
     this._maxItems = norm.maxItems
     this._maxTotalItems = norm.maxTotalItems
     this._maxStringLength = norm.maxStringLength
+    this._maxBytes = norm.maxBytes
     this._include = norm.include
     this._exclude = norm.exclude
+    this._includePaths = norm.includePaths
+    this._excludePaths = norm.excludePaths
     this._metaFieldName = norm.metaFieldName
     this._ignoreMeta = norm.ignoreMeta
+    this._markCircular = norm.markCircular
+    this._typeFieldName = norm.typeFieldName
+    this._redaction = norm.redaction
+    this._inspectors = norm.inspectors
+    this._binaryEncoding = norm.binaryEncoding
+    this._precompile = norm.precompile
+    this._formatter = norm.formatter
+    this._localeCatalog = norm.localeCatalog
+    this._locale = norm.locale
+    // Селекторы путей делают проверку полей зависимой от положения ошибки в цепочке
+    this._detailPlans = (norm.precompile && !norm.includePaths && !norm.excludePaths) ? new DetailPlanCache() : null
   }
 
   get includeStack (): boolean { return this._includeStack }
   get keepStackHeader (): boolean { return this._keepStackHeader }
+  get stackFrames (): boolean { return this._stackFrames }
+  get stackDrop (): null | readonly TStackPattern[] { return this._stackDrop }
+  get stackCollapse (): null | readonly TStackPattern[] { return this._stackCollapse }
+  get stackRoot (): null | string { return this._stackRoot }
+  get stackStripFileUrl (): boolean { return this._stackStripFileUrl }
+  /**
+   * Опции {@link shapeStackTrace()} или `null`, если ни одна из опций изменения стека не установлена.
+   */
+  get stackShape (): null | TStackShapeOptions { return this._stackShape }
   get ignoreEmpty (): boolean { return this._ignoreEmpty }
   get maxDepth (): number { return this._maxDepth }
   get maxItems (): number { return this._maxItems }
   get maxTotalItems (): number { return this._maxTotalItems }
   get maxStringLength (): number { return this._maxStringLength }
+  get maxBytes (): null | number { return this._maxBytes }
   get include (): null | ReadonlySet<string> { return this._include }
   get exclude (): null | ReadonlySet<string> { return this._exclude }
+  get includePaths (): null | readonly TPathSelector[] { return this._includePaths }
+  get excludePaths (): null | readonly TPathSelector[] { return this._excludePaths }
   get metaFieldName (): string { return this._metaFieldName }
   get ignoreMeta (): boolean { return this._ignoreMeta }
+  get markCircular (): boolean { return this._markCircular }
+  get typeFieldName (): null | string { return this._typeFieldName }
+  get redaction (): null | Redaction { return this._redaction }
+  get inspectors (): null | TypeInspectors { return this._inspectors }
+  get binaryEncoding (): 'hex' | 'base64' { return this._binaryEncoding }
+  get precompile (): boolean { return this._precompile }
+  /**
+   * Кеш планов сериализации деталей или `null`, если {@link TSerializationOptions.precompile} не установлен или не
+   * может быть применен.
+   */
+  get detailPlans (): null | DetailPlanCache { return this._detailPlans }
+  get formatter (): null | TextFormatter { return this._formatter }
+  get localeCatalog (): null | LocaleCatalog { return this._localeCatalog }
+  get locale (): null | string { return this._locale }
 
-  test (fieldName: string): boolean {
+  /**
+   * Разрешено ли поле.
+   *
+   * @param fieldName Имя поля.
+   * @param path      Путь объекта, которому принадлежит поле. Требуется для селекторов путей, по умолчанию корень.
+   */
+  test (fieldName: string, path?: TNullish | readonly TPathSegment[]): boolean {
+    let fieldPath: null | TPathSegment[] = null
+    if (this._excludePaths) {
+      fieldPath = path ? [...path, fieldName] : [fieldName]
+      for (const selector of this._excludePaths) {
+        if (matchPathSelector(selector, fieldPath)) {
+          return false
+        }
+      }
+    }
     if (fieldName === 'stack') {
       return this._includeStack
     }
     if (this._exclude?.has(fieldName)) {
       return false
     }
-    return this._include?.has(fieldName) ?? true
+    if (!this._include || this._include.has(fieldName)) {
+      return true
+    }
+    if (this._includePaths) {
+      fieldPath ??= path ? [...path, fieldName] : [fieldName]
+      for (const selector of this._includePaths) {
+        if (allowPathSelector(selector, fieldPath)) {
+          return true
+        }
+      }
+    }
+    return false
   }
 
   static createDefault (): SerializationParameters {
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  isPathSelector,
+  parsePathSelector,
+  matchPathSelector,
+  allowPathSelector,
+  formatPath
+} from './paths.ts'
+
+describe('paths', () => {
+  test('parsePathSelector', () => {
+    expect(isPathSelector('password')).toBe(false)
+    expect(isPathSelector('*.password')).toBe(true)
+    expect(isPathSelector('items[0]')).toBe(true)
+    expect(parsePathSelector('cause.response.headers')).toStrictEqual(['cause', 'response', 'headers'])
+    expect(parsePathSelector('*.password')).toStrictEqual(['*', 'password'])
+    expect(parsePathSelector('details[*].value')).toStrictEqual(['details', '[*]', 'value'])
+    expect(parsePathSelector('matrix[0][12]')).toStrictEqual(['matrix', 0, 12])
+    expect(parsePathSelector('**.token')).toStrictEqual(['**', 'token'])
+    expect(parsePathSelector('')).toBe(null)
+    expect(parsePathSelector('a..b')).toBe(null)
+    expect(parsePathSelector('a.')).toBe(null)
+    expect(parsePathSelector('.a')).toBe(null)
+    expect(parsePathSelector('a[x]')).toBe(null)
+    expect(parsePathSelector('a[0]b')).toBe(null)
+  })
+
+  test('matchPathSelector', () => {
+    expect(matchPathSelector(['*', 'password'], ['password'])).toBe(false)
+    expect(matchPathSelector(['*', 'password'], ['request', 'password'])).toBe(true)
+    expect(matchPathSelector(['*', 'password'], ['a', 'b', 'password'])).toBe(false)
+    expect(matchPathSelector(['details', '[*]', 'value'], ['details', 3, 'value'])).toBe(true)
+    expect(matchPathSelector(['details', '[*]', 'value'], ['details', 'x', 'value'])).toBe(false)
+    expect(matchPathSelector(['**', 'token'], ['token'])).toBe(true)
+    expect(matchPathSelector(['**', 'token'], ['a', 0, 'b', 'token'])).toBe(true)
+    expect(matchPathSelector(['**', 'token'], ['a', 'token', 'b'])).toBe(false)
+  })
+
+  test('allowPathSelector', () => {
+    const selector = ['cause', 'response', 'headers']
+    expect(allowPathSelector(selector, ['cause'])).toBe(true)
+    expect(allowPathSelector(selector, ['cause', 'response'])).toBe(true)
+    expect(allowPathSelector(selector, ['cause', 'response', 'headers'])).toBe(true)
+    expect(allowPathSelector(selector, ['cause', 'response', 'headers', 'accept'])).toBe(true)
+    expect(allowPathSelector(selector, ['cause', 'request'])).toBe(false)
+    expect(allowPathSelector(selector, ['message'])).toBe(false)
+  })
+
+  test('formatPath', () => {
+    expect(formatPath([])).toBe('$')
+    expect(formatPath(['cause', 'details', 0, 'value'])).toBe('$.cause.details[0].value')
+  })
+
+  test('include and exclude selectors', () => {
+    const error = new LiteError({
+      message: 'failed',
+      password: 'top',
+      request: { password: 'nested', user: 'bob' },
+      details: [{ value: 1, label: 'a' }, { value: 2, label: 'b' }],
+      cause: new LiteError({ message: 'inner', response: { status: 500, headers: { accept: '*/*' } } })
+    })
+    expect(errorToJsonLike(error, { maxDepth: 4, exclude: ['*.password', 'details[*].value', 'cause.response.headers'] })).toStrictEqual({
+      name: 'LiteError',
+      message: 'failed',
+      cause: { name: 'LiteError', message: 'inner', response: { status: 500 } },
+      password: 'top',
+      request: { user: 'bob' },
+      details: [{ label: 'a' }, { label: 'b' }]
+    })
+    expect(errorToJsonLike(error, { maxDepth: 4, include: ['message', 'cause.response.headers'] })).toStrictEqual({
+      message: 'failed',
+      cause: { message: 'inner', response: { headers: { accept: '*/*' } } }
+    })
+    // Простые имена по-прежнему применяются на любой глубине
+    expect(errorToJsonLike(error, { maxDepth: 4, exclude: ['password', 'details', 'cause'] })).toStrictEqual({
+      name: 'LiteError',
+      message: 'failed',
+      request: { user: 'bob' }
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Сегмент пути поля: имя поля или индекс элемента массива.
+ */
+type TPathSegment = string | number
+
+/**
+ * Разобранный селектор пути {@link parsePathSelector()}.
+ *
+ * Строковые сегменты являются именами полей, за исключением специальных значений:
+ *
+ *  + `'*'`   - Любое поле.
+ *  + `'[*]'` - Любой элемент массива.
+ *  + `'**'`  - Любое количество(в том числе ноль) полей и элементов массивов.
+ *
+ * Числовые сегменты являются индексами элементов массива.
+ */
+type TPathSelector = readonly TPathSegment[]
+
+const _RE_SEGMENT = /([^.[\]]+)|\[(\*|\d+)\]|(\.)/y
+
+/**
+ * Является ли строка селектором пути, а не простым именем поля. Простые имена полей применяются на любой глубине.
+ */
+function isPathSelector (value: string): boolean {
+  return value.includes('.') || value.includes('[') || value.includes('*')
+}
+
+/**
+ * Разбирает селектор пути вида `cause.response.headers`, `*.password`, `details[*].value` или `**.token`.
+ *
+ * @returns Массив сегментов или `null`, если строка не является допустимым селектором.
+ */
+function parsePathSelector (value: string): null | TPathSelector {
+  const segments: TPathSegment[] = []
+  // Точка допустима только между сегментами
+  let expectSegment = true
+  _RE_SEGMENT.lastIndex = 0
+  while (_RE_SEGMENT.lastIndex < value.length) {
+    const match = _RE_SEGMENT.exec(value)
+    if (!match) {
+      return null
+    }
+    if (match[3]) {
+      if (expectSegment) {
+        return null
+      }
+      expectSegment = true
+    }
+    else if (match[1]) {
+      if (!expectSegment) {
+        return null
+      }
+      segments.push(match[1])
+      expectSegment = false
+    }
+    else {
+      // Индексы массива могут следовать без точки: `items[0][1]`
+      segments.push(match[2] === '*' ? '[*]' : Number.parseInt(match[2] as string, 10))
+      expectSegment = false
+    }
+  }
+  return (segments.length > 0 && !expectSegment) ? segments : null
+}
+
+function _matchSegment (segment: TPathSegment, part: TPathSegment): boolean {
+  if (segment === '*') {
+    return typeof part === 'string'
+  }
+  if (segment === '[*]') {
+    return typeof part === 'number'
+  }
+  return segment === part
+}
+
+function _match (selector: TPathSelector, si: number, path: readonly TPathSegment[], pi: number, partial: boolean): boolean {
+  while (si < selector.length) {
+    const segment = selector[si] as TPathSegment
+    if (segment === '**') {
+      for (let i = pi; i <= path.length; ++i) {
+        if (_match(selector, si + 1, path, i, partial)) {
+          return true
+        }
+      }
+      return false
+    }
+    if (pi === path.length) {
+      // Путь закончился раньше селектора и является предком возможного совпадения
+      return partial
+    }
+    if (!_matchSegment(segment, path[pi] as TPathSegment)) {
+      return false
+    }
+    ++si
+    ++pi
+  }
+  return pi === path.length
+}
+
+/**
+ * Соответствует ли путь селектору полностью.
+ *
+ * @param selector Селектор {@link parsePathSelector()}.
+ * @param path     Путь поля от корня ошибки, например `['cause', 'details', 0, 'value']`.
+ */
+function matchPathSelector (selector: TPathSelector, path: readonly TPathSegment[]): boolean {
+  return _match(selector, 0, path, 0, false)
+}
+
+/**
+ * Разрешает ли селектор включения путь: путь совпадает с селектором, является предком совпадения или находится
+ * внутри совпавшего поля.
+ */
+function allowPathSelector (selector: TPathSelector, path: readonly TPathSegment[]): boolean {
+  if (_match(selector, 0, path, 0, true)) {
+    return true
+  }
+  for (let length = path.length - 1; length > 0; --length) {
+    if (_match(selector, 0, path.slice(0, length), 0, false)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Приводит путь к строке вида `$.cause.details[0].value`.
+ */
+function formatPath (path: readonly TPathSegment[]): string {
+  let result = '$'
+  for (const segment of path) {
+    result += (typeof segment === 'number') ? `[${segment}]` : `.${segment}`
+  }
+  return result
+}
+
+export {
+  type TPathSegment,
+  type TPathSelector,
+  isPathSelector,
+  parsePathSelector,
+  matchPathSelector,
+  allowPathSelector,
+  formatPath
+}
@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'vitest'
+import { ERROR_TYPE_KEY } from './constants.ts'
+import { BaseError } from './errors.ts'
+import { SerializationParameters } from './options.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  takeServiceKeys,
+  buildDetailPlan,
+  DetailPlanCache
+} from './plans.ts'
+
+class HttpError extends BaseError<Record<string, any>> {}
+Object.defineProperty(HttpError.prototype, ERROR_TYPE_KEY, { value: 'http' })
+
+describe('plans', () => {
+  test('buildDetailPlan', () => {
+    const params = new SerializationParameters({ exclude: 'secret', redact: { keys: ['token'] }, typeFieldName: '_type' })
+    const plan = buildDetailPlan(['name', 'secret', '_type', 'token', 'cause', 'status'], true, params, [])
+    expect(plan).toStrictEqual({
+      keys: ['name', 'secret', '_type', 'token', 'cause', 'status'],
+      typed: true,
+      name: true,
+      message: null,
+      code: null,
+      stack: null,
+      cause: true,
+      level: null,
+      localized: null,
+      includeStack: false,
+      custom: ['secret', 'token', 'status'],
+      allowed: [false, true, true],
+      redacted: [false, true, false],
+      ignored: 1
+    })
+    expect(Object.isFrozen(plan)).toBe(true)
+  })
+
+  test('takeServiceKeys', () => {
+    const params = new SerializationParameters({ typeFieldName: '_type' })
+    const exists = new Set(['name', '_type', 'messageKey', 'status'])
+    expect(takeServiceKeys(exists, true, params, [])).toStrictEqual([1, null])
+    expect([...exists]).toStrictEqual(['name', 'messageKey', 'status'])
+    expect(takeServiceKeys(new Set(['_type']), false, params, [])).toStrictEqual([0, null])
+  })
+
+  test('DetailPlanCache', () => {
+    const params = SerializationParameters.createDefault()
+    const cache = new DetailPlanCache()
+    const proto = {}
+    const plan = cache.resolve(proto, ['name', 'status'], false, params, [])
+    expect(plan?.custom).toStrictEqual(['status'])
+    expect(cache.resolve(proto, ['name', 'status'], false, params, [])).toBe(plan)
+    // Другой набор полей или ключ типа не используют кеш
+    expect(cache.resolve(proto, ['status', 'name'], false, params, [])).toBe(null)
+    expect(cache.resolve(proto, ['name'], false, params, [])).toBe(null)
+    expect(cache.resolve(proto, ['name', 'status'], true, params, [])).toBe(null)
+  })
+
+  test('precompile option', () => {
+    expect(new SerializationParameters({ precompile: true }).detailPlans).toBeInstanceOf(DetailPlanCache)
+    expect(new SerializationParameters().detailPlans).toBe(null)
+    // Селекторы путей отключают кеш
+    expect(new SerializationParameters({ precompile: true, exclude: 'cause.status' }).detailPlans).toBe(null)
+  })
+
+  test('same result as generic serialization', () => {
+    const options = { maxItems: 4, exclude: 'secret', redact: { keys: ['token'] }, typeFieldName: '_type' }
+    const cached = new SerializationParameters({ ...options, precompile: true })
+    const generic = new SerializationParameters(options)
+    const errors = [
+      new HttpError({ message: 'a', code: 1, status: 404, secret: 's', token: 't' }),
+      new HttpError({ message: 'b', code: 2, status: 500, secret: 's', token: 't' }),
+      new HttpError({ message: 'c', extra: true, cause: new HttpError({ message: 'd', status: 400 }) }),
+      new HttpError({ name: 'X', message: 'e', code: 3, status: 1, secret: 's', token: 't', a: 1, b: 2 })
+    ]
+    for (const error of errors) {
+      expect(errorToJsonLike(error, cached)).toStrictEqual(errorToJsonLike(error, generic))
+    }
+    expect(errorToJsonLike(errors[0], cached)).toStrictEqual({
+      _type: 'http',
+      name: 'HttpError',
+      message: 'a',
+      code: 1,
+      status: 404,
+      __meta: { kind: 'object', total: 6, truncated: 2 }
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import type { TPathSegment } from './paths.ts'
+import type { SerializationParameters } from './options.ts'
+
+/**
+ * Решения сериализатора для набора полей деталей ошибки {@link IErrorDetail}.
+ *
+ * Стандартные поля принимают значения: `null` - поле отсутствует, `false` - запрещено, `true` - разрешено.
+ */
+type TDetailPlan = {
+  /**
+   * Ключи деталей в порядке `Object.keys()`, для которых построен план.
+   */
+  readonly keys: readonly string[]
+  /**
+   * Был ли у ошибки ключ типа {@link ERROR_TYPE_KEY} при {@link TSerializationOptions.typeFieldName}.
+   */
+  readonly typed: boolean
+  readonly name: null | boolean
+  readonly message: null | boolean
+  readonly code: null | boolean
+  readonly stack: null | boolean
+  readonly cause: null | boolean
+  readonly level: null | boolean
+  /**
+   * Заменяется ли поле `'message'` переводом {@link TSerializationOptions.locale}: `null` - нет ключа
+   * `'messageKey'` или язык не выбран, `false` - поле запрещено, `true` - разрешено.
+   */
+  readonly localized: null | boolean
+  /**
+   * Разрешено ли поле `'stack'`, в том числе прочитанное напрямую из нативной ошибки.
+   */
+  readonly includeStack: boolean
+  /**
+   * Пользовательские поля в порядке следования и результаты проверок для каждого из них.
+   */
+  readonly custom: readonly string[]
+  readonly allowed: readonly boolean[]
+  readonly redacted: readonly boolean[]
+  /**
+   * Количество полей, пропущенных до чтения значений. Это поле с именем {@link TSerializationOptions.typeFieldName}.
+   * Поля `'messageKey'` и `'messageParams'` остаются пользовательскими и пропускаются, только если перевод найден.
+   */
+  readonly ignored: number
+}
+
+const _STANDARD_KEYS: ReadonlySet<string> = new Set(['name', 'message', 'code', 'stack', 'cause', 'level'])
+
+function _testStandard (exists: ReadonlySet<string>, key: string, params: SerializationParameters, path: readonly TPathSegment[]): null | boolean {
+  return exists.has(key) ? params.test(key, path) : null
+}
+
+/**
+ * Удаляет из множества ключей деталей ключ типа ошибки, который не сериализуется, и определяет, переводится ли
+ * сообщение. Ключ и параметры сообщения остаются, так как без перевода они выводятся как есть.
+ *
+ * @param exists Изменяемое множество ключей деталей.
+ * @param typed  Записывается ли ключ типа ошибки.
+ * @param params Параметры сериализации.
+ * @param path   Путь объекта деталей от корня ошибки.
+ * @returns Количество удаленных полей и значение {@link TDetailPlan.localized}.
+ */
+function takeServiceKeys (exists: Set<string>, typed: boolean, params: SerializationParameters, path: readonly TPathSegment[]): [number, null | boolean] {
+  let ignored = 0
+  // Ключ типа зарегистрированного класса не является полем деталей
+  if (typed && exists.delete(params.typeFieldName as string)) {
+    ++ignored
+  }
+  const localized = (params.locale !== null && params.localeCatalog !== null && exists.has('messageKey'))
+    ? params.test('message', path)
+    : null
+  return [ignored, localized]
+}
+
+/**
+ * Строит план сериализации деталей ошибки.
+ *
+ * @param keys   Ключи объекта деталей.
+ * @param typed  Записывается ли ключ типа ошибки.
+ * @param params Параметры сериализации.
+ * @param path   Путь объекта деталей от корня ошибки.
+ */
+function buildDetailPlan (keys: readonly string[], typed: boolean, params: SerializationParameters, path: readonly TPathSegment[]): TDetailPlan {
+  const exists = new Set(keys)
+  const [ignored, localized] = takeServiceKeys(exists, typed, params, path)
+  const custom: string[] = []
+  const allowed: boolean[] = []
+  const redacted: boolean[] = []
+  for (const key of exists) {
+    if (!_STANDARD_KEYS.has(key)) {
+      custom.push(key)
+      allowed.push(params.test(key, path))
+      redacted.push(params.redaction?.testKey(key) ?? false)
+    }
+  }
+  return Object.freeze({
+    keys: Object.freeze(keys.slice()),
+    typed,
+    name: _testStandard(exists, 'name', params, path),
+    message: _testStandard(exists, 'message', params, path),
+    code: _testStandard(exists, 'code', params, path),
+    stack: _testStandard(exists, 'stack', params, path),
+    cause: _testStandard(exists, 'cause', params, path),
+    level: _testStandard(exists, 'level', params, path),
+    localized,
+    includeStack: params.test('stack', path),
+    custom: Object.freeze(custom),
+    allowed: Object.freeze(allowed),
+    redacted: Object.freeze(redacted),
+    ignored
+  })
+}
+
+function _sameKeys (a: readonly string[], b: readonly string[]): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+  for (let i = 0; i < a.length; ++i) {
+    if (a[i] !== b[i]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Кеш планов сериализации деталей {@link TDetailPlan} по прототипу ошибки.
+ *
+ * Экземпляр принадлежит одному {@link SerializationParameters} и создается опцией
+ * {@link TSerializationOptions.precompile}. Для каждого класса запоминается план первого сериализованного экземпляра.
+ * Экземпляры того же класса с другим набором полей сериализуются без кеша.
+ */
+class DetailPlanCache {
+  protected readonly _plans: WeakMap<object, TDetailPlan> = new WeakMap()
+
+  /**
+   * Возвращает план для прототипа или `null`, если набор полей отличается от сохраненного плана.
+   *
+   * @param proto  Прототип ошибки.
+   * @param keys   Ключи объекта деталей.
+   * @param typed  Записывается ли ключ типа ошибки.
+   * @param params Параметры сериализации, которым принадлежит кеш.
+   * @param path   Путь объекта деталей от корня ошибки.
+   */
+  resolve (proto: object, keys: readonly string[], typed: boolean, params: SerializationParameters, path: readonly TPathSegment[]): null | TDetailPlan {
+    const plan = this._plans.get(proto)
+    if (!plan) {
+      const created = buildDetailPlan(keys, typed, params, path)
+      this._plans.set(proto, created)
+      return created
+    }
+    return (plan.typed === typed && _sameKeys(plan.keys, keys)) ? plan : null
+  }
+}
+
+export {
+  type TDetailPlan,
+  takeServiceKeys,
+  buildDetailPlan,
+  DetailPlanCache
+}
@@ -0,0 +1,94 @@
+import { describe, test, expect } from 'vitest'
+import type { IErrorDetail } from './types.ts'
+import { LiteError, BaseError } from './errors.ts'
+//
+import {
+  errorToProblemDetails,
+  errorFromProblemDetails
+} from './problemdetails.ts'
+
+describe('problemdetails', () => {
+  interface IHttpErrorDetail extends IErrorDetail {
+    status?: number
+    resource?: string
+  }
+
+  class NotFoundError extends BaseError<IHttpErrorDetail> {
+    override name = 'NotFoundError'
+    code = 'E_NOT_FOUND'
+    status = 404
+  }
+
+  test('errorToProblemDetails maps standard members and extensions', () => {
+    const error = new NotFoundError({ message: 'User 42 not found', resource: 'user', level: 'warn' })
+    expect(errorToProblemDetails(error, { typeBaseUri: 'https://example.com/errors/', instance: '/users/42' })).toStrictEqual({
+      type: 'https://example.com/errors/E_NOT_FOUND',
+      title: 'NotFoundError',
+      status: 404,
+      detail: 'User 42 not found',
+      instance: '/users/42',
+      code: 'E_NOT_FOUND',
+      level: 'warn',
+      resource: 'user'
+    })
+
+    expect(errorToProblemDetails(new LiteError({ message: 'Boom' }))).toStrictEqual({
+      type: 'about:blank',
+      title: 'LiteError',
+      status: 500,
+      detail: 'Boom'
+    })
+
+    expect(errorToProblemDetails(new Error('native'), { status: 502 })).toStrictEqual({
+      type: 'about:blank',
+      title: 'Error',
+      status: 502,
+      detail: 'native'
+    })
+
+    // Собственные поля ошибки имеют приоритет
+    const custom: LiteError<any> = new LiteError({ name: 'E', type: 'urn:problem:e', title: 'Custom', status: 1000, instance: '/x' })
+    expect(errorToProblemDetails(custom, { status: 400 })).toStrictEqual({
+      type: 'urn:problem:e',
+      title: 'Custom',
+      status: 400,
+      instance: '/x',
+      name: 'E'
+    })
+  })
+
+  test('errorToProblemDetails honors serialization limits', () => {
+    const error = new NotFoundError({ message: '0123456789abcdef', resource: 'user', secret: 'token' } as IHttpErrorDetail)
+    expect(errorToProblemDetails(error, { serialization: { maxStringLength: 8, exclude: ['secret', 'code'] } })).toStrictEqual({
+      type: 'about:blank',
+      title: 'NotFoundError',
+      status: 404,
+      detail: '01234567',
+      resource: 'user'
+    })
+  })
+
+  test('errorFromProblemDetails', () => {
+    const body = errorToProblemDetails(new NotFoundError({ message: 'missing', cause: new LiteError({ message: 'db' }) }), { typeBaseUri: 'urn:e:' })
+    const error = errorFromProblemDetails(body)
+    expect(error.name).toBe('NotFoundError')
+    expect(error.message).toBe('missing')
+    expect(error.detail).toStrictEqual({
+      name: 'NotFoundError',
+      message: 'missing',
+      code: 'E_NOT_FOUND',
+      cause: expect.any(LiteError),
+      type: 'urn:e:E_NOT_FOUND',
+      status: 404
+    })
+    expect(errorToProblemDetails(error)).toStrictEqual(body)
+
+    expect(errorFromProblemDetails({ type: 'about:blank', title: 'Bad Request', status: 400, detail: 'Invalid id' }).detail).toStrictEqual({
+      name: 'Bad Request',
+      message: 'Invalid id',
+      status: 400
+    })
+    expect(errorFromProblemDetails('text').detail).toStrictEqual({ name: 'LiteError', cause: 'text' })
+    expect(errorFromProblemDetails({ title: 'T' }, { useBaseError: true })).toBeInstanceOf(BaseError)
+  })
+})
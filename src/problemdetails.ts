@@ -0,0 +1,185 @@
+import type {
+  TNullish,
+  TJsonLike
+} from './types.ts'
+import type { ErrorLike } from './errors.ts'
+import {
+  type TSerializationOptions,
+  type SerializationParameters,
+  ensureSerializationParameters
+} from './options.ts'
+import { errorToJsonLike } from './serialization.ts'
+import { type TDeserializationOptions, errorFromJsonLike } from './deserialization.ts'
+
+/**
+ * Тип содержимого ответа [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457).
+ */
+const PROBLEM_DETAILS_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * Объект Problem Details [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457).
+ *
+ * Все поля, кроме стандартных, являются членами расширения.
+ */
+type TProblemDetails = {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  [_: string]: undefined | TJsonLike
+}
+
+/**
+ * Опции {@link errorToProblemDetails()}.
+ */
+type TProblemDetailsOptions = {
+  /**
+   * Опции сериализации {@link TSerializationOptions} или {@link SerializationParameters}. Ограничения применяются к
+   * членам расширения и `detail`.
+   */
+  serialization?: TNullish | TSerializationOptions | SerializationParameters
+  /**
+   * Код статуса HTTP, если ошибка не имеет собственного поля `status`. По умолчанию `500`.
+   */
+  status?: TNullish | number
+  /**
+   * Базовый URI типа проблемы. Если ошибка не имеет собственного поля `type`, но имеет `code`, тип формируется как
+   * `typeBaseUri + code`. Иначе тип равен `'about:blank'`.
+   */
+  typeBaseUri?: TNullish | string
+  /**
+   * URI конкретного случая проблемы, если ошибка не имеет собственного поля `instance`.
+   */
+  instance?: TNullish | string
+}
+
+/**
+ * Имена полей, которые переносятся в стандартные члены объекта и не попадают в расширения.
+ */
+const _STANDARD_KEYS: ReadonlySet<string> = new Set(['type', 'title', 'status', 'detail', 'instance', 'name', 'message'])
+
+function _isStatus (value: any): value is number {
+  return Number.isSafeInteger(value) && value >= 100 && value <= 599
+}
+
+function _isNonEmptyString (value: any): value is string {
+  return typeof value === 'string' && value.length > 0
+}
+
+/**
+ * Приводит ошибку к объекту Problem Details [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457).
+ *
+ * Ошибка сериализуется функцией {@link errorToJsonLike()} с ограничениями опций сериализации, после чего поля
+ * распределяются по членам объекта:
+ *
+ *  + `type`     - Собственное поле ошибки `type`, `typeBaseUri + code` или `'about:blank'`.
+ *  + `title`    - Собственное поле ошибки `title` или `name`.
+ *  + `status`   - Собственное поле ошибки `status`(целое `100..599`), опция `status` или `500`.
+ *  + `detail`   - Поле `message`.
+ *  + `instance` - Собственное поле ошибки `instance` или опция `instance`.
+ *
+ * Все остальные поля(`code`, `level`, `cause` и пользовательские) становятся членами расширения.
+ *
+ * @param error   Любая ошибка.
+ * @param options Опции {@link TProblemDetailsOptions}.
+ *
+ * @example
+ * ```ts
+ * const body = errorToProblemDetails(new NotFoundError({ status: 404 }), { typeBaseUri: 'https://example.com/errors/' })
+ * response.writeHead(body.status, { 'Content-Type': PROBLEM_DETAILS_CONTENT_TYPE })
+ * ```
+ */
+function errorToProblemDetails (error: any, options?: TNullish | TProblemDetailsOptions): TProblemDetails {
+  const params = ensureSerializationParameters(options?.serialization)
+  const json = errorToJsonLike(error, params) as Record<string, any>
+
+  const name = json['name']
+  const code = json['code']
+  let type = json['type']
+  if (!_isNonEmptyString(type)) {
+    const typeBaseUri = options?.typeBaseUri
+    type = (_isNonEmptyString(typeBaseUri) && (_isNonEmptyString(code) || Number.isSafeInteger(code)))
+      ? `${typeBaseUri}${encodeURIComponent(code)}`
+      : 'about:blank'
+  }
+  let title = json['title']
+  if (!_isNonEmptyString(title)) {
+    title = _isNonEmptyString(name) ? name : 'Error'
+  }
+  let status = json['status']
+  if (!_isStatus(status)) {
+    status = _isStatus(options?.status) ? options.status : 500
+  }
+
+  const problem: TProblemDetails = { type, title, status }
+  const message = json['message']
+  if (_isNonEmptyString(message)) {
+    problem.detail = message
+  }
+  const instance = _isNonEmptyString(json['instance']) ? json['instance'] : options?.instance
+  if (_isNonEmptyString(instance)) {
+    problem.instance = instance
+  }
+
+  for (const key of Object.keys(json)) {
+    if (!_STANDARD_KEYS.has(key)) {
+      problem[key] = json[key]
+    }
+  }
+  // Имя ошибки сохраняется в расширении, если оно не стало заголовком
+  if (_isNonEmptyString(name) && name !== title) {
+    problem['name'] = name
+  }
+  return problem
+}
+
+/**
+ * Восстанавливает ошибку из объекта Problem Details [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457).
+ *
+ * Член `title` становится именем ошибки(если в расширениях нет `name`), `detail` - сообщением, а `status`, `instance`
+ * и `type`(кроме `'about:blank'`) - полями деталей ошибки. Члены расширения восстанавливаются функцией
+ * {@link errorFromJsonLike()}.
+ *
+ * @param body    Тело ответа `application/problem+json`.
+ * @param options Опции {@link TDeserializationOptions}.
+ */
+function errorFromProblemDetails (body: any, options?: TNullish | TDeserializationOptions): ErrorLike {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return errorFromJsonLike(body, options)
+  }
+  const json: Record<string, any> = {}
+  let problem: Record<string, any> = {}
+  try {
+    problem = { ...body }
+  } catch { /**/ }
+
+  json['name'] = _isNonEmptyString(problem['name']) ? problem['name'] : problem['title']
+  json['message'] = problem['detail']
+  for (const key of Object.keys(problem)) {
+    if (!_STANDARD_KEYS.has(key)) {
+      json[key] = problem[key]
+    }
+  }
+  if (_isNonEmptyString(problem['type']) && problem['type'] !== 'about:blank') {
+    json['type'] = problem['type']
+  }
+  if (_isNonEmptyString(problem['title']) && problem['title'] !== json['name']) {
+    json['title'] = problem['title']
+  }
+  if (_isStatus(problem['status'])) {
+    json['status'] = problem['status']
+  }
+  if (_isNonEmptyString(problem['instance'])) {
+    json['instance'] = problem['instance']
+  }
+  return errorFromJsonLike(json, options)
+}
+
+export {
+  PROBLEM_DETAILS_CONTENT_TYPE,
+  type TProblemDetails,
+  type TProblemDetailsOptions,
+  errorToProblemDetails,
+  errorFromProblemDetails
+}
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError, LiteError } from './errors.ts'
+//
+import {
+  PUBLIC_LEVEL_MESSAGES,
+  toPublicJson
+} from './public.ts'
+
+class NotFoundError extends BaseError<Record<string, any>> {
+  publicFields = ['code', 'resource', 'publicFields']
+}
+
+describe('public', () => {
+  test('public message and fields', () => {
+    const error = new NotFoundError({
+      message: 'SELECT * FROM users WHERE id = 42 returned 0 rows',
+      publicMessage: 'User not found',
+      code: 'E_NOT_FOUND',
+      resource: { kind: 'user', id: 42 },
+      host: 'db-1.internal'
+    })
+    expect(toPublicJson(error)).toStrictEqual({ message: 'User not found', code: 'E_NOT_FOUND', resource: { kind: 'user', id: 42 } })
+    // Полный вывод для журналов не меняется
+    expect(error.toJsonWith({ maxDepth: 3 })).toMatchObject({ message: 'SELECT * FROM users WHERE id = 42 returned 0 rows', host: 'db-1.internal' })
+    // Значения публичных полей сериализуются с ограничениями
+    expect(toPublicJson(error, { serialization: { maxDepth: 1 } })['resource']).toMatchObject({ __meta: { kind: 'object' } })
+  })
+
+  test('internal message declared public', () => {
+    const error = new LiteError({ message: 'Invalid email', level: 'warn', publicFields: ['message', 'level'] })
+    expect(toPublicJson(error)).toStrictEqual({ message: 'Invalid email', level: 'warn' })
+  })
+
+  test('generic message and error id', () => {
+    const error = new LiteError({ message: 'connect ECONNREFUSED 10.0.0.5:5432', code: 'ECONNREFUSED' })
+    const json = toPublicJson(error, { generateId: () => 'id-1' })
+    expect(json).toStrictEqual({ message: PUBLIC_LEVEL_MESSAGES.error, errorId: 'id-1' })
+    // Идентификатор сохраняется в деталях и попадает в журнал
+    expect(error.detail.errorId).toBe('id-1')
+    expect(error.toJsonWith()).toMatchObject({ errorId: 'id-1' })
+    expect(toPublicJson(error, { generateId: () => 'id-2' }).errorId).toBe('id-1')
+
+    const warning = new LiteError({ message: 'rate limit for 10.0.0.5', level: 'warn' })
+    expect(toPublicJson(warning, { messages: { warn: 'Too many requests' }, generateId: () => 'id-3' })).toStrictEqual({ message: 'Too many requests', errorId: 'id-3' })
+
+    const native = toPublicJson(new Error('secret'))
+    expect(native.message).toBe(PUBLIC_LEVEL_MESSAGES.error)
+    expect(native.errorId).toMatch(/^[\w-]{8,}$/)
+    expect(toPublicJson(Object.freeze({ message: 'frozen' }), { generateId: () => 'id-4' })).toStrictEqual({ message: PUBLIC_LEVEL_MESSAGES.error, errorId: 'id-4' })
+    expect(toPublicJson(null, { generateId: () => 'id-5' })).toStrictEqual({ message: PUBLIC_LEVEL_MESSAGES.error, errorId: 'id-5' })
+    // Сбой генератора не прерывает формирование ответа
+    expect(toPublicJson(null, { generateId: () => { throw new Error('broken') } }).errorId).toMatch(/.+/)
+    expect(toPublicJson(null, { generateId: () => 42 as any }).errorId).toMatch(/.+/)
+    expect(toPublicJson(null, { generateId: () => '' }).errorId).toMatch(/.+/)
+  })
+})
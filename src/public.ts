@@ -0,0 +1,175 @@
+import type {
+  TNullish,
+  TJsonLike,
+  TErrorLevel,
+  IErrorDetail
+} from './types.ts'
+import {
+  type TSerializationOptions,
+  type SerializationParameters,
+  ensureSerializationParameters
+} from './options.ts'
+import { isErrorLike, errorToJsonLike } from './serialization.ts'
+
+/**
+ * Общие сообщения {@link toPublicJson()} по уровню ошибки для ошибок без публичного сообщения.
+ */
+const PUBLIC_LEVEL_MESSAGES: Readonly<Record<TErrorLevel, string>> = Object.freeze({
+  debug: 'The request could not be completed.',
+  info: 'The request could not be completed.',
+  warn: 'The request is invalid or cannot be processed.',
+  error: 'An unexpected error occurred.',
+  fatal: 'An unexpected error occurred.'
+})
+
+/**
+ * Безопасный для клиента объект ошибки {@link toPublicJson()}.
+ */
+type TPublicJson = {
+  message: string
+  errorId?: string
+  [_: string]: undefined | TJsonLike
+}
+
+/**
+ * Опции {@link toPublicJson()}.
+ */
+type TPublicJsonOptions = {
+  /**
+   * Опции сериализации {@link TSerializationOptions} или {@link SerializationParameters}. Ограничения применяются к
+   * значениям публичных полей.
+   */
+  serialization?: TNullish | TSerializationOptions | SerializationParameters
+  /**
+   * Общие сообщения по уровню ошибки, заменяющие {@link PUBLIC_LEVEL_MESSAGES}.
+   */
+  messages?: TNullish | Partial<Readonly<Record<TErrorLevel, string>>>
+  /**
+   * Генератор идентификатора ошибки. По умолчанию `crypto.randomUUID()`, если доступен. Исключение генератора или
+   * результат, не являющийся непустой строкой, заменяются идентификатором по умолчанию.
+   */
+  generateId?: TNullish | (() => string)
+}
+
+/**
+ * Поля, которые управляют публичным выводом и не являются публичными полями.
+ */
+const _SERVICE_KEYS: ReadonlySet<string> = new Set(['publicMessage', 'publicFields', 'errorId'])
+
+const _LEVELS: ReadonlySet<string> = new Set(['debug', 'info', 'warn', 'error', 'fatal'])
+
+function _isNonEmptyString (value: any): value is string {
+  return typeof value === 'string' && value.length > 0
+}
+
+function _generateErrorId (): string {
+  try {
+    const crypto = Reflect.get(globalThis, 'crypto') as undefined | { randomUUID?: () => string }
+    if (typeof crypto?.randomUUID === 'function') {
+      return crypto.randomUUID()
+    }
+  } catch { /**/ }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
+}
+
+/**
+ * Вызывает пользовательский генератор {@link TPublicJsonOptions.generateId}. Исключение или результат, не являющийся
+ * непустой строкой, заменяются идентификатором по умолчанию.
+ */
+function _callGenerateId (generateId: TNullish | (() => string)): string {
+  if (typeof generateId === 'function') {
+    try {
+      const id: unknown = generateId()
+      if (_isNonEmptyString(id)) {
+        return id
+      }
+    } catch { /**/ }
+  }
+  return _generateErrorId()
+}
+
+/**
+ * Приводит ошибку к объекту, безопасному для передачи клиенту API.
+ *
+ * В результат попадают только публичное сообщение {@link IErrorDetail.publicMessage} и поля, перечисленные в
+ * {@link IErrorDetail.publicFields}, например `code` или `status`. Если публичного сообщения нет, выводится общее
+ * сообщение по уровню ошибки {@link PUBLIC_LEVEL_MESSAGES} и идентификатор ошибки `errorId`. Идентификатор
+ * сохраняется в деталях ошибки, поэтому попадает и в полный вывод `toJsonWith()` для журналов, связывая ответ клиенту
+ * с записью журнала.
+ *
+ * Поля читаются из деталей {@link ErrorLike} или собственных свойств остальных ошибок.
+ *
+ * @param error   Любая ошибка.
+ * @param options Опции {@link TPublicJsonOptions}.
+ *
+ * @example
+ * ```ts
+ * class NotFoundError extends BaseError {
+ *   publicFields = ['code', 'resource']
+ * }
+ * toPublicJson(new NotFoundError({ message: 'SELECT ... returned 0 rows', publicMessage: 'Not found', code: 'E_NOT_FOUND', resource: 'user' }))
+ * // { message: 'Not found', code: 'E_NOT_FOUND', resource: 'user' }
+ *
+ * toPublicJson(new Error('connect ECONNREFUSED 10.0.0.5:5432'))
+ * // { message: 'An unexpected error occurred.', errorId: '4f1c...' }
+ * ```
+ */
+function toPublicJson (error: any, options?: TNullish | TPublicJsonOptions): TPublicJson {
+  let detail: Record<string, any> = {}
+  try {
+    const source: unknown = isErrorLike(error) ? error.detail : error
+    if (typeof source === 'object' && source !== null) {
+      detail = source as Record<string, any>
+    }
+  } catch { /**/ }
+  const read = (key: keyof IErrorDetail): unknown => {
+    try {
+      return detail[key]
+    } catch { /**/ }
+    return undefined
+  }
+
+  const publicFields = read('publicFields')
+  const fields = Array.isArray(publicFields)
+    ? (publicFields as unknown[]).filter((key: unknown): key is string => typeof key === 'string' && !_SERVICE_KEYS.has(key))
+    : []
+  const json = (fields.length > 0) ? errorToJsonLike(error, ensureSerializationParameters(options?.serialization)) as Record<string, any> : {}
+
+  let message = read('publicMessage')
+  // Внутреннее сообщение, объявленное публичным, используется при отсутствии отдельного публичного сообщения
+  if (!_isNonEmptyString(message) && fields.includes('message')) {
+    message = json['message']
+  }
+  let errorId = read('errorId')
+  if (!_isNonEmptyString(message)) {
+    const level = read('level')
+    const key: TErrorLevel = (typeof level === 'string' && _LEVELS.has(level)) ? level as TErrorLevel : 'error'
+    const custom = options?.messages?.[key]
+    message = _isNonEmptyString(custom) ? custom : PUBLIC_LEVEL_MESSAGES[key]
+    if (!_isNonEmptyString(errorId)) {
+      errorId = _callGenerateId(options?.generateId)
+      try {
+        detail['errorId'] = errorId
+      } catch { /**/ }
+    }
+  }
+
+  const result: TPublicJson = { message: message as string }
+  if (_isNonEmptyString(errorId)) {
+    result.errorId = errorId
+  }
+  for (const key of fields) {
+    const value: unknown = json[key]
+    if (key !== 'message' && typeof value !== 'undefined') {
+      result[key] = value as TJsonLike
+    }
+  }
+  return result
+}
+
+export {
+  PUBLIC_LEVEL_MESSAGES,
+  type TPublicJson,
+  type TPublicJsonOptions,
+  toPublicJson
+}
@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest'
+import type { IErrorDetail } from './types.ts'
+import { ERROR_TYPE_KEY } from './constants.ts'
+import { ErrorLike, LiteError, BaseError } from './errors.ts'
+import { errorFromJsonLike } from './deserialization.ts'
+//
+import {
+  readErrorTypeKey,
+  ErrorRegistry
+} from './registry.ts'
+
+describe('registry', () => {
+  test('register sets the type key on the class prototype', () => {
+    class AppError extends BaseError { }
+    class ChildError extends AppError { }
+    const registry = new ErrorRegistry()
+    expect(registry.register('app', AppError)).toBe(registry)
+    expect(registry.has('app')).toBe(true)
+    expect(registry.get('app')).toBe(AppError)
+    expect(registry.get('unknown')).toBe(null)
+    expect(readErrorTypeKey(new AppError())).toBe('app')
+    expect(readErrorTypeKey(new ChildError())).toBe('app') // унаследован
+    expect(readErrorTypeKey(new LiteError())).toBe(null)
+    expect(Object.keys(new AppError().detail)).toStrictEqual(['name'])
+    expect((AppError.prototype as any)[ERROR_TYPE_KEY]).toBe('app')
+  })
+
+  test('register detects duplicates', () => {
+    class AppError extends LiteError { }
+    class OtherError extends LiteError { }
+    const registry = new ErrorRegistry()
+    registry.register('app', AppError)
+    expect(() => registry.register('app', OtherError)).toThrow(BaseError)
+    expect(() => registry.register('other', AppError)).toThrow(/already registered with the type key "app"/)
+    expect(() => registry.register('', OtherError)).toThrow(BaseError)
+    expect(() => registry.register('lite', LiteError)).toThrow(/not extensible/)
+    // Другой реестр может зарегистрировать класс под тем же ключом
+    expect(() => new ErrorRegistry().register('app', AppError)).not.toThrow()
+    // ... и под другим ключом, который становится ключом типа класса
+    const other = new ErrorRegistry()
+    expect(() => other.register('other', AppError)).not.toThrow()
+    expect((AppError.prototype as any)[ERROR_TYPE_KEY]).toBe('other')
+    expect(registry.get('app')).toBe(AppError)
+  })
+
+  test('create uses factory and fallback', () => {
+    class MessageError extends LiteError {
+      constructor(message: string) {
+        super({ message })
+      }
+    }
+    const registry = new ErrorRegistry()
+    registry.register('msg', MessageError, (detail) => new MessageError(detail.message ?? ''))
+    const error = registry.create('msg', { message: 'hello', code: 1 })!
+    expect(error).toBeInstanceOf(MessageError)
+    expect(error.detail).toStrictEqual({ message: 'hello', name: 'MessageError', code: 1 })
+    expect(registry.create('unknown', {})).toBe(null)
+
+    class UnknownError extends LiteError { }
+    const withFallback = new ErrorRegistry({ fallback: UnknownError })
+    expect(withFallback.create('unknown', { message: 'x' })).toBeInstanceOf(UnknownError)
+  })
+
+  test('polymorphic revival', () => {
+    interface IAppErrorDetail extends IErrorDetail {
+      userId?: number
+    }
+    class AppError extends BaseError<IAppErrorDetail> { }
+    class NotFoundError extends AppError {
+      override name = 'NotFoundError'
+      code = 404
+    }
+    class FallbackError extends LiteError { }
+    const registry = new ErrorRegistry({ fallback: FallbackError })
+      .register('app', AppError)
+      .register('not-found', NotFoundError)
+
+    const source = new AppError({ message: 'top', cause: new NotFoundError({ name: 'Renamed', userId: 1 }) })
+    const json = source.toJsonWith({ typeFieldName: '__type' })
+    expect(json).toStrictEqual({
+      __type: 'app',
+      name: 'AppError',
+      message: 'top',
+      cause: { __type: 'not-found', name: 'Renamed', code: 404, userId: 1 }
+    })
+
+    const error = errorFromJsonLike(json, { registry, typeFieldName: '__type' })
+    expect(error).toBeInstanceOf(AppError)
+    const cause = error.detail.cause as NotFoundError
+    expect(cause).toBeInstanceOf(NotFoundError)
+    expect(cause.detail).toStrictEqual({ name: 'Renamed', code: 404, userId: 1 })
+
+    // Без поля типа используется `name`
+    const byName = errorFromJsonLike({ name: 'not-found' }, { registry })
+    expect(byName).toBeInstanceOf(NotFoundError)
+    const unknown = errorFromJsonLike({ name: 'Unknown' }, { registry })
+    expect(unknown).toBeInstanceOf(FallbackError)
+    expect(unknown).toBeInstanceOf(ErrorLike)
+  })
+
+  test('revived errors keep the serialized stack', () => {
+    class StackError extends BaseError { }
+    const registry = new ErrorRegistry().register('stack', StackError)
+    const stack = 'StackError: boom\n    at origin (/app/origin.js:1:1)'
+    const error = errorFromJsonLike({ name: 'stack', message: 'boom', stack }, { registry })
+    expect(error).toBeInstanceOf(StackError)
+    expect((error as StackError).stack).toBe(stack)
+  })
+})
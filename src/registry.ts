@@ -0,0 +1,164 @@
+import type { TNullish, IErrorDetail } from './types.ts'
+import { ERROR_TYPE_KEY } from './constants.ts'
+import { type ErrorLike, BaseError } from './errors.ts'
+
+const _hasOwnProperty = Object.prototype.hasOwnProperty
+
+/**
+ * Конструктор класса ошибки, который может быть зарегистрирован в {@link ErrorRegistry}.
+ */
+type TErrorClass<T extends ErrorLike<any> = ErrorLike<any>> = abstract new (...args: any[]) => T
+
+/**
+ * Фабрика восстановления ошибки из деталей. По умолчанию вызывается конструктор класса с одним аргументом `detail`.
+ */
+type TErrorFactory<T extends ErrorLike<any> = ErrorLike<any>> = (detail: IErrorDetail) => T
+
+/**
+ * Опции {@link ErrorRegistry}.
+ */
+type TErrorRegistryOptions = {
+  /**
+   * Класс ошибки для неизвестных ключей типа. По умолчанию не установлен и решение принимает вызывающая сторона,
+   * например {@link errorFromJsonLike()} использует {@link LiteError} или {@link BaseError}.
+   */
+  fallback?: TNullish | (new (detail?: any) => ErrorLike<any>)
+}
+
+/**
+ * Возвращает ключ типа, установленный на прототипе класса ошибки или любого его предка.
+ *
+ * @param error Ошибка или прототип класса ошибки.
+ */
+function readErrorTypeKey (error: any): null | string {
+  try {
+    const key = error[ERROR_TYPE_KEY]
+    if (typeof key === 'string' && key.length > 0) {
+      return key
+    }
+  } catch { /**/ }
+  return null
+}
+
+/**
+ * Реестр классов ошибок для полиморфного восстановления ошибок по ключу типа.
+ *
+ * Регистрация устанавливает ключ типа на прототип класса (символ {@link ERROR_TYPE_KEY}). Этот ключ может быть
+ * записан в результат сериализации опцией {@link TSerializationOptions.typeFieldName}, что позволяет восстановить
+ * ошибку независимо от пользовательского поля `name`. Если класс зарегистрирован в нескольких реестрах под разными
+ * ключами, на прототипе остается ключ последней регистрации.
+ *
+ * @example
+ * ```ts
+ * class AppError extends BaseError { }
+ * const registry = new ErrorRegistry({ fallback: LiteError })
+ * registry.register('app', AppError)
+ *
+ * const json = new AppError({}).toJsonWith({ typeFieldName: '__type' })
+ * const error = errorFromJsonLike(json, { registry, typeFieldName: '__type' })
+ * // error instanceof AppError === true
+ * ```
+ */
+class ErrorRegistry {
+  protected readonly _classes: Map<string, { ErrorClass: TErrorClass, factory: TErrorFactory }> = new Map()
+  protected readonly _fallback: null | TErrorFactory
+
+  constructor(options?: TNullish | TErrorRegistryOptions) {
+    const fallback = options?.fallback
+    this._fallback = (typeof fallback === 'function') ? ((detail: IErrorDetail) => new fallback(detail)) : null
+  }
+
+  /**
+   * Регистрирует класс ошибки.
+   *
+   * @param typeKey    Стабильный ключ типа. Не может быть пустой строкой.
+   * @param ErrorClass Класс ошибки.
+   * @param factory    Необязательная фабрика, если конструктор класса не принимает `IErrorDetail` первым аргументом.
+   * @throws Прерывает выполнение, если ключ уже зарегистрирован, класс зарегистрирован в этом реестре под другим
+   * ключом или прототип класса не может быть расширен.
+   */
+  register<T extends ErrorLike<any>> (typeKey: string, ErrorClass: TErrorClass<T>, factory?: TNullish | TErrorFactory<T>): this {
+    if (typeof typeKey !== 'string' || typeKey.length === 0) {
+      throw new BaseError({ message: 'Failed to register an error class. The type key must be a non-empty string.' })
+    }
+    if (this._classes.has(typeKey)) {
+      throw new BaseError({ message: `Failed to register an error class. The type key "${typeKey}" is already registered.` })
+    }
+    for (const [key, entry] of this._classes) {
+      if (entry.ErrorClass === ErrorClass) {
+        throw new BaseError({ message: `Failed to register an error class "${ErrorClass.name}" with the type key "${typeKey}". The class is already registered with the type key "${key}".` })
+      }
+    }
+    const proto = ErrorClass.prototype as object
+    // Свойство остается настраиваемым: другой реестр может зарегистрировать тот же класс под своим ключом
+    if (!_hasOwnProperty.call(proto, ERROR_TYPE_KEY) || readErrorTypeKey(proto) !== typeKey) {
+      try {
+        Object.defineProperty(proto, ERROR_TYPE_KEY, {
+          configurable: true,
+          enumerable: false,
+          writable: false,
+          value: typeKey
+        })
+      } catch (cause) {
+        throw new BaseError({ message: `Failed to register an error class "${ErrorClass.name}". The class prototype is not extensible (it might be frozen or sealed).`, cause })
+      }
+    }
+    this._classes.set(typeKey, {
+      ErrorClass,
+      factory: (typeof factory === 'function') ? factory : ((detail: IErrorDetail) => new (ErrorClass as unknown as new (detail: IErrorDetail) => T)(detail))
+    })
+    return this
+  }
+
+  /**
+   * Зарегистрирован ли ключ типа.
+   */
+  has (typeKey: string): boolean {
+    return this._classes.has(typeKey)
+  }
+
+  /**
+   * Возвращает зарегистрированный класс или `null`.
+   */
+  get (typeKey: string): null | TErrorClass {
+    return this._classes.get(typeKey)?.ErrorClass ?? null
+  }
+
+  /**
+   * Создает ошибку зарегистрированного класса или класса по умолчанию {@link TErrorRegistryOptions.fallback}.
+   *
+   * Поля `detail` переносятся в детали созданной ошибки, даже если конструктор класса их проигнорировал.
+   *
+   * @param typeKey Ключ типа или имя ошибки.
+   * @param detail  Детали ошибки.
+   * @returns Ошибку или `null`, если ключ неизвестен и класс по умолчанию не установлен.
+   */
+  create (typeKey: TNullish | string, detail: IErrorDetail): null | ErrorLike<any> {
+    const entry = (typeof typeKey === 'string') ? this._classes.get(typeKey) : undefined
+    const factory = entry ? entry.factory : this._fallback
+    if (!factory) {
+      return null
+    }
+    const error = factory(detail)
+    let target: any
+    try {
+      target = error.detail
+    } catch { /**/ }
+    if (typeof target === 'object' && target !== null && target !== detail) {
+      for (const key of Object.keys(detail)) {
+        try {
+          target[key] = detail[key as keyof IErrorDetail]
+        } catch { /**/ }
+      }
+    }
+    return error
+  }
+}
+
+export {
+  type TErrorClass,
+  type TErrorFactory,
+  type TErrorRegistryOptions,
+  readErrorTypeKey,
+  ErrorRegistry
+}
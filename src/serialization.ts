@@ -9,15 +9,33 @@ import type {
   IErrorLike,
   TMetaValue,
   TMetaTruncated,
-  TMetaPlaceholder
+  TMetaPlaceholder,
+  TSerializationReport
 } from './types.ts'
-import { ERROR_LIKE_MARKER } from './constants.ts'
+import { ERROR_LIKE_MARKER, ERROR_TYPE_KEY, TO_JSON_LIKE } from './constants.ts'
 import {
   type TSerializationOptions,
   type SerializationParameters,
   ensureSerializationParameters
 } from './options.ts'
 import type { ErrorLike, BaseError } from './errors.ts'
+import { parseStackTrace, shapeStackTrace } from './stack.ts'
+import type { Redaction } from './redaction.ts'
+import { type TPathSegment, formatPath } from './paths.ts'
+import type { TTypeInspectorResult } from './inspectors.ts'
+import { bytesToHex, bytesToBase64 } from './encoding.ts'
+import { fitJsonToByteBudget } from './budget.ts'
+import {
+  type TWriterSink,
+  StringSink,
+  writeJsonInto,
+  writeTextInto,
+  StreamWriter,
+  JsonStreamWriter,
+  TextStreamWriter
+} from './writer.ts'
+import { type TDetailPlan, takeServiceKeys } from './plans.ts'
+import { type LocaleCatalog, localizeDetail } from './locale.ts'
 
 const _ELM = ERROR_LIKE_MARKER
 const _RE_AT = /^[\t ]*at[\t ]+/i
@@ -42,6 +60,12 @@ type TSerResultMeta = readonly [TValueTypes['meta'], { [_: string]: TMetaValue |
 type TSerResult = TSerResultUndefined | TSerResultPrimitive | TSerResultObject | TSerResultArray | TSerResultMeta
 
 const _UNDEFINED: TSerResultUndefined = Object.freeze([VALUE_TYPES.undefined, null] as const)
+// Результаты контейнеров, уже записанных в потоковый приемник SerializationContext.writer()
+const _STREAMED_OBJECT: TSerResultObject = Object.freeze([VALUE_TYPES.object, Object.freeze({})] as const)
+const _STREAMED_ARRAY: TSerResultArray = Object.freeze([VALUE_TYPES.array, Object.freeze([]) as unknown as TJsonArray] as const)
+const _STREAMED_META: TSerResultMeta = Object.freeze([VALUE_TYPES.meta, Object.freeze({})] as const)
+// Поля деталей, которые не выводятся, если сообщение заменено переводом
+const _MESSAGE_KEYS: readonly string[] = ['messageKey', 'messageParams']
 
 /**
  * Проверяет - принадлежит ли тип к {@link ErrorLike} или {@link BaseError}.
@@ -60,26 +84,106 @@ function isErrorLike<T extends (ErrorLike<any> | BaseError<any, any>)> (error: a
 }
 
 class SerializationContext {
-  protected readonly _seen: WeakSet<any> = new WeakSet()
+  protected readonly _seen: WeakMap<any, readonly TPathSegment[]> = new WeakMap()
+  protected readonly _added: object[] = []
+  protected readonly _path: TPathSegment[] = []
   protected readonly _maxTotalItems: number
   protected readonly _maxItems: number
+  protected readonly _report: null | TSerializationReport
+  protected _writer: null | StreamWriter
   protected _totalItems = 0
 
-  constructor(maxTotalItems: number, maxItems: number, objForSeen?: object) {
+  constructor(maxTotalItems: number, maxItems: number, objForSeen?: object, report?: TNullish | TSerializationReport, writer?: TNullish | StreamWriter) {
     this._maxTotalItems = maxTotalItems
     this._maxItems = maxItems
+    this._report = report ?? null
+    this._writer = writer ?? null
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     if (typeof objForSeen === 'object' && objForSeen !== null) {
-      this._seen.add(objForSeen)
+      this._seen.set(objForSeen, [])
     }
   }
 
+  /**
+   * Встречался ли объект ранее. Если после обхода вложенных значений объект удаляется {@link release()}, в контексте
+   * остаются только предки текущего значения, и ссылка на такой объект образует цикл.
+   */
   has (obj: object): boolean {
     return this._seen.has(obj)
   }
 
   add (obj: object): void {
-    this._seen.add(obj)
+    this._seen.set(obj, this._path.slice())
+    this._added.push(obj)
+  }
+
+  /**
+   * Метка для {@link release()}: количество добавленных объектов.
+   */
+  mark (): number {
+    return this._added.length
+  }
+
+  /**
+   * Удаляет объекты, добавленные после метки {@link mark()}, по завершении обхода их вложенных значений.
+   */
+  release (mark: number): void {
+    while (this._added.length > mark) {
+      this._seen.delete(this._added.pop() as object)
+    }
+  }
+
+  /**
+   * Путь объекта в выводе или `null`, если объекта нет в контексте.
+   */
+  ref (obj: object): null | readonly TPathSegment[] {
+    return this._seen.get(obj) ?? null
+  }
+
+  /**
+   * Потоковый приемник, в который контейнеры записываются во время обхода, или `null`, если результат строится
+   * объектом.
+   */
+  writer (): null | StreamWriter {
+    return this._writer
+  }
+
+  /**
+   * Заменяет потоковый приемник и возвращает прежний. Значение `null` временно переключает обход на построение
+   * объекта.
+   */
+  useWriter (writer: null | StreamWriter): null | StreamWriter {
+    const previous = this._writer
+    this._writer = writer
+    return previous
+  }
+
+  /**
+   * Путь текущего объекта от корня, например `['cause', 'details', 0]`.
+   */
+  path (): readonly TPathSegment[] {
+    return this._path
+  }
+
+  pushPath (segment: TPathSegment): void {
+    this._path.push(segment)
+  }
+
+  popPath (): void {
+    this._path.pop()
+  }
+
+  /**
+   * Записывает в отчет {@link TSerializationReport}, если он передан в конструктор, путь текущего объекта или его
+   * поля `key`.
+   */
+  report (kind: 'truncated' | 'depthLimited' | 'cutStrings' | 'failedGetters' | 'cycles', key?: TPathSegment): void {
+    if (this._report) {
+      this._report[kind].push(formatPath(typeof key === 'undefined' ? this._path : [...this._path, key]))
+      if (kind === 'truncated' && this.isTotalFull()) {
+        this._report.budgetExhausted = true
+      }
+    }
   }
 
   maxTotalItems (): number {
@@ -229,7 +333,67 @@ function jsonArrayInto (arraySource: TJsonArray, receiver: string[], level: numb
   }
 }
 
-function ensureErrorMeta (error: { name?: TNullish | string, message?: TNullish | string }, maxStringLength: number): { kind: 'error', name: string, message?: string } {
+function _isStreamed (result: TSerResult): boolean {
+  return result === _STREAMED_OBJECT || result === _STREAMED_ARRAY || result === _STREAMED_META
+}
+
+/**
+ * Записывает поле в объект-приемник или, если приемником является {@link StreamWriter}, в поток.
+ */
+function _setProp (receiver: Record<string, any>, key: string, value: TJsonLike): void {
+  if (receiver instanceof StreamWriter) {
+    receiver.key(key)
+    receiver.value(value)
+  }
+  else {
+    receiver[key] = value
+  }
+}
+
+/**
+ * Устанавливает ключ потокового приемника перед обходом значения поля, которое может записать себя само.
+ */
+function _beginProp (receiver: Record<string, any>, key: string): void {
+  if (receiver instanceof StreamWriter) {
+    receiver.key(key)
+  }
+}
+
+/**
+ * Записывает результат обхода значения поля после {@link _beginProp()}.
+ */
+function _setResult (receiver: Record<string, any>, key: string, result: TSerResult): void {
+  if (receiver instanceof StreamWriter) {
+    if (!_isStreamed(result)) {
+      receiver.value(result[1])
+    }
+  }
+  else {
+    receiver[key] = result[1]
+  }
+}
+
+function _pushItem (receiver: TJsonArray | StreamWriter, value: TJsonLike): void {
+  if (receiver instanceof StreamWriter) {
+    receiver.value(value)
+  }
+  else {
+    receiver.push(value)
+  }
+}
+
+function _pushResult (receiver: TJsonArray | StreamWriter, result: TSerResult): void {
+  if (receiver instanceof StreamWriter) {
+    if (!_isStreamed(result)) {
+      receiver.value(result[1])
+    }
+  }
+  else {
+    receiver.push(result[1])
+  }
+}
+
+function ensureErrorMeta (error: { name?: TNullish | string, message?: TNullish | string }, maxStringLength: number, redaction?: TNullish | Redaction): { kind: 'error', name: string, message?: string } {
   let name: TNullish | string
   let message: TNullish | string
   try {
@@ -238,6 +402,9 @@ function ensureErrorMeta (error: { name?: TNullish | string, message?: TNullish
   } catch { /**/ }
   const meta = { kind: 'error', name: (typeof name === 'string') ? name : '' } as { kind: 'error', name: string, message?: string }
   if (typeof message === 'string' && message.length > 0) {
+    if (redaction) {
+      message = redaction.redactString(message)
+    }
     if (message.length > maxStringLength) {
       message = message.substring(0, maxStringLength)
     }
@@ -260,13 +427,13 @@ function safeReadCodeInto (obj: Record<string, any>, receiver: Record<string, an
     value = obj['code']
   } catch { /**/ }
   if ((typeof value === 'string' && value.length > 0) || Number.isSafeInteger(value)) {
-    receiver['code'] = value
+    _setProp(receiver, 'code', value as string | number)
     return true
   }
   return false
 }
 
-function safeReadStackInto (obj: Record<string, any>, receiver: Record<string, any>, maxStringLength: number, keepStackHeader: boolean): boolean {
+function safeReadStackInto (obj: Record<string, any>, receiver: Record<string, any>, maxStringLength: number, keepStackHeader: boolean, ctx?: TNullish | SerializationContext): boolean {
   let value: undefined | string
   try {
     value = obj['stack']
@@ -284,15 +451,86 @@ function safeReadStackInto (obj: Record<string, any>, receiver: Record<string, a
   }
   if (value.length > maxStringLength) {
     value = value.substring(0, maxStringLength)
+    ctx?.report('cutStrings', 'stack')
   }
   if (value.length === 0) {
     return false
   }
-  receiver['stack'] = value
+  _setProp(receiver, 'stack', value)
+  return true
+}
+
+/**
+ * Записывает `stack` массивом разобранных кадров {@link TStackFrame}. Количество кадров ограничено `maxItems`, а
+ * превышение отмечается мета-записью в конце массива.
+ */
+function safeReadStackFramesInto (obj: Record<string, any>, receiver: Record<string, any>, params: SerializationParameters, ctx?: TNullish | SerializationContext): boolean {
+  let value: undefined | string
+  try {
+    value = obj['stack']
+  } catch { /**/ }
+  const frames = parseStackTrace(value)
+  if (frames.length === 0) {
+    return false
+  }
+  const maxStringLength = params.maxStringLength
+  const stack: TJsonArray = []
+  for (const frame of frames) {
+    if (stack.length >= params.maxItems) {
+      break
+    }
+    if (frame.functionName !== null && frame.functionName.length > maxStringLength) {
+      frame.functionName = frame.functionName.substring(0, maxStringLength)
+    }
+    if (frame.file !== null && frame.file.length > maxStringLength) {
+      frame.file = frame.file.substring(0, maxStringLength)
+    }
+    stack.push(frame)
+  }
+  if (frames.length > stack.length) {
+    ctx?.report('truncated', 'stack')
+    if (!params.ignoreMeta) {
+      stack.push({ [params.metaFieldName]: { kind: 'array', total: frames.length, truncated: frames.length - stack.length } })
+    }
+  }
+  _setProp(receiver, 'stack', stack)
   return true
 }
 
-function safeReadStringInto (obj: Record<string, any>, receiver: Record<string, any>, key: string, maxStringLength: null | number, allowEmpty: boolean): boolean {
+/**
+ * Читает поле `stack` строкой или, если установлена опция {@link TSerializationOptions.stackFrames}, массивом кадров.
+ * Перед чтением к стеку применяются опции {@link SerializationParameters.stackShape} и шаблоны значений
+ * {@link SerializationParameters.redaction}.
+ */
+function readStackInto (obj: Record<string, any>, receiver: Record<string, any>, params: SerializationParameters, ctx?: TNullish | SerializationContext): boolean {
+  const shape = params.stackShape
+  if (shape) {
+    let value: undefined | string
+    try {
+      value = obj['stack']
+    } catch { /**/ }
+    if (typeof value !== 'string') {
+      return false
+    }
+    obj = { stack: shapeStackTrace(value, shape) }
+  }
+  const redaction = params.redaction
+  if (redaction) {
+    let value: undefined | string
+    try {
+      value = obj['stack']
+    } catch { /**/ }
+    if (typeof value !== 'string') {
+      return false
+    }
+    obj = { stack: redaction.redactString(value) }
+  }
+  return params.stackFrames
+    ? safeReadStackFramesInto(obj, receiver, params, ctx)
+    : safeReadStackInto(obj, receiver, params.maxStringLength, params.keepStackHeader, ctx)
+}
+
+function safeReadStringInto (obj: Record<string, any>, receiver: Record<string, any>, key: string, maxStringLength: null | number, allowEmpty: boolean, redaction?: TNullish | Redaction, ctx?: TNullish | SerializationContext): boolean {
   let value: undefined | string
   try {
     value = obj[key]
@@ -301,14 +539,18 @@ function safeReadStringInto (obj: Record<string, any>, receiver: Record<string,
     return false
   }
   if (value.length > 0) {
+    if (redaction) {
+      value = redaction.redactString(value)
+    }
     if (maxStringLength !== null && value.length > maxStringLength) {
       value = value.substring(0, maxStringLength)
+      ctx?.report('cutStrings', key)
     }
-    receiver[key] = value
+    _setProp(receiver, key, value)
     return true
   }
   if (allowEmpty) {
-    receiver[key] = value
+    _setProp(receiver, key, value)
     return true
   }
   return false
@@ -320,20 +562,81 @@ function safeReadPropsInto (objectSource: Record<string, any>, params: Serializa
     if (ctx.isFull(count)) {
       break
     }
-    if (!params.test(key)) {
+    if (!params.test(key, ctx.path())) {
       ++ignored
       continue
     }
     let value: any
     try {
       value = objectSource[key]
-    } catch { /**/ }
+    } catch {
+      ctx.report('failedGetters', key)
+    }
+    // Значение скрытого поля не инспектируется, но поле остается в выводе
+    if (params.redaction?.testKey(key) && typeof value !== 'undefined') {
+      _setProp(receiver, key, params.redaction.replaceValue(value, key))
+      ctx.increment()
+      ++count
+      continue
+    }
+    ctx.pushPath(key)
+    _beginProp(receiver, key)
+    const result = inspectAny(value, params, ctx, level)
+    ctx.popPath()
+    if (result[0] === VALUE_TYPES.undefined) {
+      ++ignored
+    }
+    else {
+      _setResult(receiver, key, result)
+      ctx.increment()
+      ++count
+    }
+  }
+  return [count, ignored]
+}
+
+/**
+ * Аналог {@link safeReadPropsInto()} для пользовательских полей деталей с заранее вычисленными проверками
+ * {@link TDetailPlan}.
+ *
+ * @param localized Заменено ли сообщение переводом. Поля `'messageKey'` и `'messageParams'` в этом случае пропускаются
+ *                  без учета, так как уже учтены вызывающим кодом.
+ */
+function readPlannedPropsInto (detailSource: Record<string, any>, plan: TDetailPlan, params: SerializationParameters, ctx: SerializationContext, level: 0 | number, count: number, receiver: Record<string, any>, localized: boolean): [number, number] {
+  let ignored = 0
+  for (let i = 0; i < plan.custom.length; ++i) {
+    if (ctx.isFull(count)) {
+      break
+    }
+    const key = plan.custom[i] as string
+    if (localized && _MESSAGE_KEYS.includes(key)) {
+      continue
+    }
+    if (!plan.allowed[i]) {
+      ++ignored
+      continue
+    }
+    let value: any
+    try {
+      value = detailSource[key]
+    } catch {
+      ctx.report('failedGetters', key)
+    }
+    if (plan.redacted[i] && params.redaction && typeof value !== 'undefined') {
+      _setProp(receiver, key, params.redaction.replaceValue(value, key))
+      ctx.increment()
+      ++count
+      continue
+    }
+    ctx.pushPath(key)
+    _beginProp(receiver, key)
     const result = inspectAny(value, params, ctx, level)
+    ctx.popPath()
     if (result[0] === VALUE_TYPES.undefined) {
       ++ignored
     }
     else {
-      receiver[key] = result[1]
+      _setResult(receiver, key, result)
       ctx.increment()
       ++count
     }
@@ -341,15 +644,34 @@ function safeReadPropsInto (objectSource: Record<string, any>, params: Serializa
   return [count, ignored]
 }
 
+/**
+ * Результат для повторной ссылки на объект: заместитель `{ kind: 'circular', ref }` при опции
+ * {@link TSerializationOptions.markCircular} или пропуск значения.
+ */
+function inspectCircular (obj: object, params: SerializationParameters, ctx: SerializationContext): TSerResultUndefined | TSerResultMeta {
+  ctx.report('cycles')
+  if (!params.markCircular || params.ignoreMeta) {
+    return _UNDEFINED
+  }
+  const ref = ctx.ref(obj)
+  return ref
+    ? [VALUE_TYPES.meta, { [params.metaFieldName]: { kind: 'circular', ref: formatPath(ref) } }]
+    : _UNDEFINED
+}
+
 // typeof - https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Operators/typeof#description
-function _inspectPrimitive (type: 'undefined' | 'boolean' | 'number' | 'bigint' | 'string' | 'symbol' | 'function', primitiveSource: Exclude<TPrimitive, null | object>, params: SerializationParameters): TSerResultUndefined | TSerResultPrimitive | TSerResultMeta {
+function _inspectPrimitive (type: 'undefined' | 'boolean' | 'number' | 'bigint' | 'string' | 'symbol' | 'function', primitiveSource: Exclude<TPrimitive, null | object>, params: SerializationParameters, ctx?: TNullish | SerializationContext): TSerResultUndefined | TSerResultPrimitive | TSerResultMeta {
   if (type === 'string') {
     const length = (primitiveSource as string).length
     if (length === 0) {
       return params.ignoreEmpty ? _UNDEFINED : [VALUE_TYPES.string, '']
     }
-    if (length > params.maxStringLength) {
+    if (params.redaction) {
+      primitiveSource = params.redaction.redactString(primitiveSource as string)
+    }
+    if ((primitiveSource as string).length > params.maxStringLength) {
       primitiveSource = (primitiveSource as string).substring(0, params.maxStringLength)
+      ctx?.report('cutStrings')
     }
     return [VALUE_TYPES.string, primitiveSource as string]
   }
@@ -375,11 +697,11 @@ function _inspectPrimitive (type: 'undefined' | 'boolean' | 'number' | 'bigint'
   return _UNDEFINED
 }
 
-function inspectPrimitive (primitiveSource: TPrimitive, params: SerializationParameters): TSerResultUndefined | TSerResultPrimitive | TSerResultMeta {
+function inspectPrimitive (primitiveSource: TPrimitive, params: SerializationParameters, ctx?: TNullish | SerializationContext): TSerResultUndefined | TSerResultPrimitive | TSerResultMeta {
   if (primitiveSource === null) {
     return params.ignoreEmpty ? _UNDEFINED : [VALUE_TYPES.null, null]
   }
-  return _inspectPrimitive((typeof primitiveSource) as any, primitiveSource, params)
+  return _inspectPrimitive((typeof primitiveSource) as any, primitiveSource, params, ctx)
 }
 
 function inspectDate (dateSource: Date, params: SerializationParameters): TSerResultUndefined | TSerResultMeta {
@@ -404,13 +726,16 @@ function inspectRegExp (reSource: RegExp, params: SerializationParameters): TSer
 
 function inspectObject (objectSource: Record<string, any>, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultObject | TSerResultMeta {
   if (ctx.has(objectSource)) {
-    return _UNDEFINED
+    return inspectCircular(objectSource, params, ctx)
   }
   ctx.add(objectSource)
 
   const keys: string[] = Object.keys(objectSource)
   let total = keys.length
   if (level >= params.maxDepth) {
+    if (total > 0) {
+      ctx.report('depthLimited')
+    }
     if (params.ignoreMeta) {
       return _UNDEFINED
     }
@@ -426,7 +751,7 @@ function inspectObject (objectSource: Record<string, any>, params: Serialization
   const stackIndex = keys.indexOf('stack')
   if (stackIndex !== -1) {
     keys.splice(stackIndex, 1)
-    if (params.includeStack) {
+    if (params.test('stack', ctx.path())) {
       hasStack = true
     }
     else {
@@ -434,13 +759,16 @@ function inspectObject (objectSource: Record<string, any>, params: Serialization
     }
   }
 
-  const receiver: Record<string, any> = {}
+  // При потоковой записи значения записываются в приемник сразу
+  const writer = ctx.writer()
+  writer?.openObject()
+  const receiver: Record<string, any> = writer ?? {}
   const ci = safeReadPropsInto(objectSource, params, ctx, level, 0, keys, receiver)
   let count = ci[0]
   total -= ci[1]
 
   if (hasStack) {
-    if (safeReadStackInto(objectSource, receiver, params.maxStringLength, params.keepStackHeader)) {
+    if (readStackInto(objectSource, receiver, params, ctx)) {
       ctx.increment()
       ++count
     }
@@ -449,26 +777,42 @@ function inspectObject (objectSource: Record<string, any>, params: Serialization
     }
   }
 
-  if (total > count && !params.ignoreMeta) {
-    receiver[params.metaFieldName] = { kind: 'object', total, truncated: total - count }
-    ctx.increment()
-    ++count
+  if (total > count) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _setProp(receiver, params.metaFieldName, { kind: 'object', total, truncated: total - count })
+      ctx.increment()
+      ++count
+    }
   }
 
-  if (count > 0 || !params.ignoreEmpty) {
-    return [VALUE_TYPES.object, receiver]
+  return _closeObject(receiver, count > 0 || !params.ignoreEmpty)
+}
+
+/**
+ * Завершает объект, построенный обходом: закрывает контейнер потокового приемника или возвращает объект.
+ *
+ * @param keep Попадает ли объект в результат.
+ */
+function _closeObject (receiver: Record<string, any>, keep: boolean): TSerResultUndefined | TSerResultObject {
+  if (receiver instanceof StreamWriter) {
+    receiver.close(keep)
+    return keep ? _STREAMED_OBJECT : _UNDEFINED
   }
-  return _UNDEFINED
+  return keep ? [VALUE_TYPES.object, receiver] : _UNDEFINED
 }
 
 function inspectArray (arraySource: any[], params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultArray | TSerResultMeta {
   if (ctx.has(arraySource)) {
-    return _UNDEFINED
+    return inspectCircular(arraySource, params, ctx)
   }
   ctx.add(arraySource)
 
   let total = safeArrayLength(arraySource)
   if (level >= params.maxDepth) {
+    if (total > 0) {
+      ctx.report('depthLimited')
+    }
     if (params.ignoreMeta) {
       return _UNDEFINED
     }
@@ -479,41 +823,63 @@ function inspectArray (arraySource: any[], params: SerializationParameters, ctx:
 
   ++level
   let ignored = 0
-  const receiver: any[] = []
+  let length = 0
+  const writer = ctx.writer()
+  writer?.openArray()
+  const receiver: TJsonArray | StreamWriter = writer ?? []
 
   for (let i = 0; i < total; ++i) {
-    if (ctx.isFull(receiver.length)) {
+    if (ctx.isFull(length)) {
       break
     }
     let value: any
     try {
       value = arraySource[i]
-    } catch { /**/ }
+    } catch {
+      ctx.report('failedGetters', i)
+    }
+    ctx.pushPath(length)
     const result = inspectAny(value, params, ctx, level)
+    ctx.popPath()
     if (result[0] === VALUE_TYPES.undefined) {
       ++ignored
     }
     else {
-      receiver.push(result[1])
+      _pushResult(receiver, result)
       ctx.increment()
+      ++length
     }
   }
 
   total -= ignored
-  if (total > receiver.length && !params.ignoreMeta) {
-    receiver.push({ [params.metaFieldName]: { kind: 'array', total, truncated: total - receiver.length } })
-    ctx.increment()
+  if (total > length) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _pushItem(receiver, { [params.metaFieldName]: { kind: 'array', total, truncated: total - length } })
+      ctx.increment()
+      ++length
+    }
   }
 
-  if (receiver.length > 0 || !params.ignoreEmpty) {
-    return [VALUE_TYPES.array, receiver]
+  const keep = length > 0 || !params.ignoreEmpty
+  if (receiver instanceof StreamWriter) {
+    receiver.close(keep)
+    return keep ? _STREAMED_ARRAY : _UNDEFINED
   }
-  return _UNDEFINED
+  return keep ? [VALUE_TYPES.array, receiver] : _UNDEFINED
+}
+
+/**
+ * Проверяет стандартное поле деталей без плана {@link TDetailPlan}: `null` - поле отсутствует, иначе результат
+ * {@link SerializationParameters.test}. Проверенное поле удаляется из множества ключей.
+ */
+function _testDetailField (exists: Set<string>, key: string, params: SerializationParameters, ctx: SerializationContext): null | boolean {
+  return exists.delete(key) ? params.test(key, ctx.path()) : null
 }
 
 function inspectDetail (likeSource: { detail: IErrorDetail }, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultObject | TSerResultMeta {
   if (ctx.has(likeSource)) {
-    return _UNDEFINED
+    return inspectCircular(likeSource, params, ctx)
   }
   ctx.add(likeSource)
 
@@ -522,31 +888,75 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
     detailSource = likeSource.detail
   } catch { /**/ }
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  if (typeof detailSource !== 'object' || detailSource === null || ctx.has(detailSource)) {
+  if (typeof detailSource !== 'object' || detailSource === null) {
     return _UNDEFINED
   }
+  if (ctx.has(detailSource)) {
+    return inspectCircular(detailSource, params, ctx)
+  }
   ctx.add(detailSource)
 
   if (level >= params.maxDepth) {
+    ctx.report('depthLimited')
     return params.ignoreMeta
       ? _UNDEFINED
-      : [VALUE_TYPES.meta, { [params.metaFieldName]: ensureErrorMeta(detailSource, params.maxStringLength) }]
+      : [VALUE_TYPES.meta, { [params.metaFieldName]: ensureErrorMeta(detailSource, params.maxStringLength, params.redaction) }]
   }
 
   ++level
   const keys: string[] = Object.keys(detailSource)
   let total = keys.length
   let count = 0
-  let ignored = 0
-  const exists: Set<string> = new Set(keys)
-  const receiver: Record<string, any> = {}
+  const writer = ctx.writer()
+  writer?.openObject()
+  const receiver: Record<string, any> = writer ?? {}
+
+  // Ключ типа зарегистрированного класса не является полем деталей и не учитывается в счетчике полей
+  let typed = false
+  if (params.typeFieldName !== null) {
+    let typeKey: any
+    try {
+      typeKey = (likeSource as Record<symbol, any>)[ERROR_TYPE_KEY]
+    } catch { /**/ }
+    if (typeof typeKey === 'string' && typeKey.length > 0) {
+      // Поток записывает ключ вместе с открытием объекта, который может не попасть в результат
+      if (writer) {
+        writer.head(params.typeFieldName, typeKey)
+      }
+      else {
+        receiver[params.typeFieldName] = typeKey
+      }
+      ctx.increment()
+      typed = true
+    }
+  }
+
+  // План класса из кеша. Без плана, как и до его построения, поля проверяются по ходу чтения
+  let plan: null | TDetailPlan = null
+  if (params.detailPlans) {
+    const proto: null | object = Object.getPrototypeOf(likeSource)
+    if (proto) {
+      plan = params.detailPlans.resolve(proto, keys, typed, params, ctx.path())
+    }
+  }
+  const exists: Set<string> = new Set(plan ? null : keys)
+  let ignored: number
+  let localizable: null | boolean
+  if (plan) {
+    ignored = plan.ignored
+    localizable = plan.localized
+  }
+  else {
+    [ignored, localizable] = takeServiceKeys(exists, typed, params, ctx.path())
+  }
 
   // Читаем ключи в строгом порядке
 
   // Есть ли значение вообще
-  if (exists.delete('name')) {
+  const nameAllowed = plan ? plan.name : _testDetailField(exists, 'name', params, ctx)
+  if (nameAllowed !== null) {
     // Если оно запрещено, то сразу отнимаем счетчик
-    if (!params.test('name')) {
+    if (!nameAllowed) {
       ++ignored
     }
     // Если нет места, то счетчик отнимать нельзя
@@ -560,12 +970,30 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
       }
     }
   }
-  if (exists.delete('message')) {
-    if (!params.test('message')) {
+  // Перевод сообщения заменяет исходное `message` и может быть записан, даже если поля `message` нет
+  const messageAllowed = plan ? plan.message : _testDetailField(exists, 'message', params, ctx)
+  // Перевод ищется и при запрещенном `message`, так как от него зависит вывод ключа и параметров сообщения
+  const localized = (localizable !== null && ctx.hasSpace(count)) ? localizeDetail(detailSource, params.localeCatalog as LocaleCatalog, params.locale) : null
+  if (localized !== null) {
+    for (const key of _MESSAGE_KEYS) {
+      if (plan ? plan.custom.includes(key) : exists.delete(key)) {
+        ++ignored
+      }
+    }
+  }
+  if (localizable && localized !== null && safeReadStringInto({ message: localized }, receiver, 'message', params.maxStringLength, false, params.redaction, ctx)) {
+    if (messageAllowed === null) {
+      ++total
+    }
+    ctx.increment()
+    ++count
+  }
+  else if (messageAllowed !== null) {
+    if (!messageAllowed) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
-      if (safeReadStringInto(detailSource, receiver, 'message', params.maxStringLength, false)) {
+      if (safeReadStringInto(detailSource, receiver, 'message', params.maxStringLength, false, params.redaction, ctx)) {
         ctx.increment()
         ++count
       }
@@ -574,8 +1002,9 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
       }
     }
   }
-  if (exists.delete('code')) {
-    if (!params.test('code')) {
+  const codeAllowed = plan ? plan.code : _testDetailField(exists, 'code', params, ctx)
+  if (codeAllowed !== null) {
+    if (!codeAllowed) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
@@ -588,15 +1017,15 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
       }
     }
   }
-  const includeStack = params.test('stack')
+  const includeStack = plan ? plan.includeStack : params.test('stack', ctx.path())
   const hasSpace = ctx.hasSpace(count)
   // Пытаемся прочитать пользовательский stack
-  if (exists.delete('stack')) {
+  if (plan ? plan.stack !== null : exists.delete('stack')) {
     if (!includeStack) {
       ++ignored
     }
     else if (hasSpace) {
-      if (safeReadStackInto(detailSource, receiver, params.maxStringLength, params.keepStackHeader)) {
+      if (readStackInto(detailSource, receiver, params, ctx)) {
         ctx.increment()
         ++count
       }
@@ -606,32 +1035,39 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
     }
   }
   // ... иначе, если это нативная ошибка - читаем напрямую
-  else if (includeStack && hasSpace && ('stack' in likeSource) && safeReadStackInto(likeSource, receiver, params.maxStringLength, params.keepStackHeader)) {
+  else if (includeStack && hasSpace && ('stack' in likeSource) && readStackInto(likeSource, receiver, params, ctx)) {
     ctx.increment()
     ++count
   }
-  if (exists.delete('cause')) {
-    if (!params.test('cause')) {
+  const causeAllowed = plan ? plan.cause : _testDetailField(exists, 'cause', params, ctx)
+  if (causeAllowed !== null) {
+    if (!causeAllowed) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
       let value: any
       try {
         value = detailSource.cause
-      } catch { /**/ }
+      } catch {
+        ctx.report('failedGetters', 'cause')
+      }
+      ctx.pushPath('cause')
+      _beginProp(receiver, 'cause')
       const result = inspectAny(value, params, ctx, level)
+      ctx.popPath()
       if (result[0] === VALUE_TYPES.undefined) {
         ++ignored
       }
       else {
-        receiver['cause'] = result[1]
+        _setResult(receiver, 'cause', result)
         ctx.increment()
         ++count
       }
     }
   }
-  if (exists.delete('level')) {
-    if (!params.test('level')) {
+  const levelAllowed = plan ? plan.level : _testDetailField(exists, 'level', params, ctx)
+  if (levelAllowed !== null) {
+    if (!levelAllowed) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
@@ -645,35 +1081,51 @@ function inspectDetail (likeSource: { detail: IErrorDetail }, params: Serializat
     }
   }
 
-  if (ctx.hasSpace(count) && exists.size > 0) {
+  if (plan && ctx.hasSpace(count) && plan.custom.length > 0) {
+    const ci = readPlannedPropsInto(detailSource, plan, params, ctx, level, count, receiver, localized !== null)
+    count = ci[0]
+    ignored += ci[1]
+  }
+  else if (!plan && ctx.hasSpace(count) && exists.size > 0) {
     const ci = safeReadPropsInto(detailSource, params, ctx, level, count, exists, receiver)
     count = ci[0]
     ignored += ci[1]
   }
 
   total -= ignored
-  if (total > count && !params.ignoreMeta) {
-    receiver[params.metaFieldName] = { kind: 'object', total, truncated: total - count }
-    ctx.increment()
-    ++count
+  if (total > count) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _setProp(receiver, params.metaFieldName, { kind: 'object', total, truncated: total - count })
+      ctx.increment()
+      ++count
+    }
   }
 
-  if (count > 0 || !params.ignoreEmpty) {
-    return [VALUE_TYPES.object, receiver]
-  }
-  return _UNDEFINED
+  return _closeObject(receiver, count > 0 || !params.ignoreEmpty)
+}
+
+const _NATIVE_ERROR_KEYS: readonly string[] = ['name', 'message', 'code', 'stack', 'cause', 'level']
+const _AGGREGATE_ERROR_KEYS: readonly string[] = [..._NATIVE_ERROR_KEYS, 'errors']
+
+/**
+ * Является ли значение экземпляром `AggregateError`.
+ */
+function isAggregateError (value: object): value is AggregateError {
+  return typeof AggregateError === 'function' && value instanceof AggregateError
 }
 
 function inspectError (errorSource: Error, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultObject | TSerResultMeta {
   if (ctx.has(errorSource)) {
-    return _UNDEFINED
+    return inspectCircular(errorSource, params, ctx)
   }
   ctx.add(errorSource)
 
   if (level >= params.maxDepth) {
+    ctx.report('depthLimited')
     return params.ignoreMeta
       ? _UNDEFINED
-      : [VALUE_TYPES.meta, { [params.metaFieldName]: ensureErrorMeta(errorSource, params.maxStringLength) }]
+      : [VALUE_TYPES.meta, { [params.metaFieldName]: ensureErrorMeta(errorSource, params.maxStringLength, params.redaction) }]
   }
 
   ++level
@@ -681,14 +1133,23 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
   let total = keys.length
 
   const exists: Set<string> = new Set(keys)
+  // Стандартные поля нативной ошибки обычно не перечисляемы или унаследованы, но учитываются в счетчике полей
+  const aggregate = isAggregateError(errorSource)
+  for (const key of aggregate ? _AGGREGATE_ERROR_KEYS : _NATIVE_ERROR_KEYS) {
+    if (!exists.has(key) && (key in errorSource)) {
+      ++total
+    }
+  }
 
   let count = 0
   let ignored = 0
-  const receiver: Record<string, any> = {}
+  const writer = ctx.writer()
+  writer?.openObject()
+  const receiver: Record<string, any> = writer ?? {}
 
   if (exists.delete('name') || ('name' in errorSource)) {
     // Если оно запрещено, то сразу отнимаем счетчик
-    if (!params.test('name')) {
+    if (!params.test('name', ctx.path())) {
       ++ignored
     }
     // Если нет места, то счетчик отнимать нельзя
@@ -703,11 +1164,11 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
     }
   }
   if (exists.delete('message') || ('message' in errorSource)) {
-    if (!params.test('message')) {
+    if (!params.test('message', ctx.path())) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
-      if (safeReadStringInto(errorSource, receiver, 'message', params.maxStringLength, false)) {
+      if (safeReadStringInto(errorSource, receiver, 'message', params.maxStringLength, false, params.redaction, ctx)) {
         ctx.increment()
         ++count
       }
@@ -717,7 +1178,7 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
     }
   }
   if (exists.delete('code') || ('code' in errorSource)) {
-    if (!params.test('code')) {
+    if (!params.test('code', ctx.path())) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
@@ -731,11 +1192,11 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
     }
   }
   if (exists.delete('stack') || ('stack' in errorSource)) {
-    if (!params.test('stack')) {
+    if (!params.test('stack', ctx.path())) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
-      if (safeReadStackInto(errorSource, receiver, params.maxStringLength, params.keepStackHeader)) {
+      if (readStackInto(errorSource, receiver, params, ctx)) {
         ctx.increment()
         ++count
       }
@@ -745,27 +1206,32 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
     }
   }
   if (exists.delete('cause') || ('cause' in errorSource)) {
-    if (!params.test('cause')) {
+    if (!params.test('cause', ctx.path())) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
       let value: any
       try {
         value = errorSource.cause
-      } catch { /**/ }
+      } catch {
+        ctx.report('failedGetters', 'cause')
+      }
+      ctx.pushPath('cause')
+      _beginProp(receiver, 'cause')
       const result = inspectAny(value, params, ctx, level)
+      ctx.popPath()
       if (result[0] === VALUE_TYPES.undefined) {
         ++ignored
       }
       else {
-        receiver['cause'] = result[1]
+        _setResult(receiver, 'cause', result)
         ctx.increment()
         ++count
       }
     }
   }
   if (exists.delete('level') || ('level' in errorSource)) {
-    if (!params.test('level')) {
+    if (!params.test('level', ctx.path())) {
       ++ignored
     }
     else if (ctx.hasSpace(count)) {
@@ -779,6 +1245,34 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
     }
   }
 
+  // Вложенные ошибки `AggregateError` не перечисляемы и читаются как стандартное поле
+  if (aggregate) {
+    exists.delete('errors')
+    if (!params.test('errors', ctx.path())) {
+      ++ignored
+    }
+    else if (ctx.hasSpace(count)) {
+      let value: any
+      try {
+        value = errorSource.errors
+      } catch {
+        ctx.report('failedGetters', 'errors')
+      }
+      ctx.pushPath('errors')
+      _beginProp(receiver, 'errors')
+      const result = inspectAny(value, params, ctx, level)
+      ctx.popPath()
+      if (result[0] === VALUE_TYPES.undefined) {
+        ++ignored
+      }
+      else {
+        _setResult(receiver, 'errors', result)
+        ctx.increment()
+        ++count
+      }
+    }
+  }
+
   if (ctx.hasSpace(count) && exists.size > 0) {
     const ci = safeReadPropsInto(errorSource, params, ctx, level, count, exists, receiver)
     count = ci[0]
@@ -786,16 +1280,335 @@ function inspectError (errorSource: Error, params: SerializationParameters, ctx:
   }
 
   total -= ignored
-  if (total > count && !params.ignoreMeta) {
-    receiver[params.metaFieldName] = { kind: 'object', total, truncated: total - count }
-    ctx.increment()
-    ++count
+  if (total > count) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _setProp(receiver, params.metaFieldName, { kind: 'object', total, truncated: total - count })
+      ctx.increment()
+      ++count
+    }
   }
 
-  if (count > 0 || !params.ignoreEmpty) {
-    return [VALUE_TYPES.object, receiver]
+  return _closeObject(receiver, count > 0 || !params.ignoreEmpty)
+}
+
+function _inspectEntry (value: any, segment: number, params: SerializationParameters, ctx: SerializationContext, level: number, receiver: TJsonArray | StreamWriter): void {
+  ctx.pushPath(segment)
+  const result = inspectAny(value, params, ctx, level)
+  ctx.popPath()
+  // Пара [key, value] не может иметь пропусков
+  if (result[0] === VALUE_TYPES.undefined) {
+    _pushItem(receiver, null)
   }
-  return _UNDEFINED
+  else {
+    _pushResult(receiver, result)
+  }
+}
+
+/**
+ * Сериализует {@link Map} в заместитель `{ type: 'map', value: [[key, value], ...] }`. Ключи, как и значения, могут
+ * быть любыми объектами. Количество пар ограничено как для массивов.
+ *
+ * Строковые ключи проверяются как имена полей объекта: пары с исключенными ключами пропускаются, а значения скрытых
+ * ключей заменяются по правилам {@link TSerializationOptions.redact}.
+ */
+function inspectMap (mapSource: Map<any, any>, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultMeta {
+  if (ctx.has(mapSource)) {
+    return inspectCircular(mapSource, params, ctx)
+  }
+  ctx.add(mapSource)
+
+  let total = 0
+  try {
+    total = mapSource.size
+  } catch { /**/ }
+  if (total === 0) {
+    return params.ignoreEmpty ? _UNDEFINED : [VALUE_TYPES.meta, { [params.metaFieldName]: { type: 'map', value: [] } }]
+  }
+  if (level >= params.maxDepth) {
+    ctx.report('depthLimited')
+    return params.ignoreMeta
+      ? _UNDEFINED
+      : [VALUE_TYPES.meta, { [params.metaFieldName]: { kind: 'map', length: total } }]
+  }
+
+  ++level
+  let ignored = 0
+  let length = 0
+  const writer = ctx.writer()
+  writer?.openArray('map')
+  const receiver: TJsonArray | StreamWriter = writer ?? []
+  try {
+    for (const [key, value] of mapSource) {
+      if (ctx.isFull(length)) {
+        break
+      }
+      const isStringKey = typeof key === 'string'
+      if (isStringKey && !params.test(key, ctx.path())) {
+        ++ignored
+        continue
+      }
+      ctx.pushPath(params.metaFieldName)
+      ctx.pushPath('value')
+      ctx.pushPath(length)
+      writer?.openArray()
+      const entry: TJsonArray | StreamWriter = writer ?? []
+      _inspectEntry(key, 0, params, ctx, level, entry)
+      if (isStringKey && params.redaction?.testKey(key) && typeof value !== 'undefined') {
+        _pushItem(entry, params.redaction.replaceValue(value, key))
+      }
+      else {
+        _inspectEntry(value, 1, params, ctx, level, entry)
+      }
+      ctx.popPath()
+      ctx.popPath()
+      ctx.popPath()
+      if (entry instanceof StreamWriter) {
+        entry.close(true)
+      }
+      else {
+        (receiver as TJsonArray).push(entry)
+      }
+      ctx.increment()
+      ++length
+    }
+  } catch { /**/ }
+
+  total -= ignored
+  if (total > length) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _pushItem(receiver, { [params.metaFieldName]: { kind: 'array', total, truncated: total - length } })
+      ctx.increment()
+    }
+  }
+  if (receiver instanceof StreamWriter) {
+    receiver.close(true)
+    return _STREAMED_META
+  }
+  return [VALUE_TYPES.meta, { [params.metaFieldName]: { type: 'map', value: receiver } }]
+}
+
+/**
+ * Сериализует {@link Set} в заместитель `{ type: 'set', value: [...] }` по правилам массивов.
+ */
+function inspectSet (setSource: Set<any>, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResultUndefined | TSerResultMeta {
+  if (ctx.has(setSource)) {
+    return inspectCircular(setSource, params, ctx)
+  }
+  ctx.add(setSource)
+
+  let total = 0
+  try {
+    total = setSource.size
+  } catch { /**/ }
+  if (total === 0) {
+    return params.ignoreEmpty ? _UNDEFINED : [VALUE_TYPES.meta, { [params.metaFieldName]: { type: 'set', value: [] } }]
+  }
+  if (level >= params.maxDepth) {
+    ctx.report('depthLimited')
+    return params.ignoreMeta
+      ? _UNDEFINED
+      : [VALUE_TYPES.meta, { [params.metaFieldName]: { kind: 'set', length: total } }]
+  }
+
+  ++level
+  let ignored = 0
+  let length = 0
+  const writer = ctx.writer()
+  writer?.openArray('set')
+  const receiver: TJsonArray | StreamWriter = writer ?? []
+  try {
+    for (const value of setSource) {
+      if (ctx.isFull(length)) {
+        break
+      }
+      ctx.pushPath(params.metaFieldName)
+      ctx.pushPath('value')
+      ctx.pushPath(length)
+      const result = inspectAny(value, params, ctx, level)
+      ctx.popPath()
+      ctx.popPath()
+      ctx.popPath()
+      if (result[0] === VALUE_TYPES.undefined) {
+        ++ignored
+      }
+      else {
+        _pushResult(receiver, result)
+        ctx.increment()
+        ++length
+      }
+    }
+  } catch { /**/ }
+
+  total -= ignored
+  if (total > length) {
+    ctx.report('truncated')
+    if (!params.ignoreMeta) {
+      _pushItem(receiver, { [params.metaFieldName]: { kind: 'array', total, truncated: total - length } })
+      ctx.increment()
+      ++length
+    }
+  }
+  const keep = length > 0 || !params.ignoreEmpty
+  if (receiver instanceof StreamWriter) {
+    receiver.close(keep)
+    return keep ? _STREAMED_META : _UNDEFINED
+  }
+  return keep ? [VALUE_TYPES.meta, { [params.metaFieldName]: { type: 'set', value: receiver } }] : _UNDEFINED
+}
+
+/**
+ * Является ли значение двоичными данными: `ArrayBuffer`, `SharedArrayBuffer`, `TypedArray`, `DataView` или `Buffer`.
+ */
+function isBinary (value: object): value is ArrayBufferLike | ArrayBufferView {
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return true
+  }
+  const SharedArrayBufferCtor: unknown = Reflect.get(globalThis, 'SharedArrayBuffer')
+  return typeof SharedArrayBufferCtor === 'function' && value instanceof SharedArrayBufferCtor
+}
+
+/**
+ * Сериализует двоичные данные в заместитель {@link TMetaBinary} с размером и превью первых байт в кодировке
+ * {@link TSerializationOptions.binaryEncoding}. Длина превью не превышает `maxStringLength`.
+ */
+function inspectBinary (binarySource: ArrayBufferLike | ArrayBufferView, params: SerializationParameters): TSerResultUndefined | TSerResultMeta {
+  let name = ''
+  let bytes: Uint8Array
+  try {
+    const ctorName: unknown = binarySource.constructor.name
+    if (typeof ctorName === 'string') {
+      name = ctorName
+    }
+    bytes = ArrayBuffer.isView(binarySource)
+      ? new Uint8Array(binarySource.buffer, binarySource.byteOffset, binarySource.byteLength)
+      : new Uint8Array(binarySource)
+  } catch {
+    return _UNDEFINED
+  }
+  const length = bytes.length
+  if (length === 0 && params.ignoreEmpty) {
+    return _UNDEFINED
+  }
+  const encoding = params.binaryEncoding
+  // Hex - два символа на байт, Base64 - четыре символа на каждые три байта
+  const previewLength = encoding === 'hex'
+    ? Math.floor(params.maxStringLength / 2)
+    : Math.floor(params.maxStringLength / 4) * 3
+  const preview = length > previewLength ? bytes.subarray(0, previewLength) : bytes
+  const value = encoding === 'hex' ? bytesToHex(preview) : bytesToBase64(preview)
+  return [VALUE_TYPES.meta, { [params.metaFieldName]: { type: 'binary', name, length, encoding, value } }]
+}
+
+/**
+ * Сериализует `URL` и `URLSearchParams` в строковый заместитель. Строка проходит через правила скрытия данных, что
+ * позволяет удалить из адреса учетные данные или токены.
+ */
+function inspectUrl (urlSource: object, type: 'url' | 'urlsearchparams', params: SerializationParameters, ctx?: TNullish | SerializationContext): TSerResultUndefined | TSerResultMeta {
+  let value: undefined | string
+  try {
+    value = String(urlSource)
+  } catch { /**/ }
+  if (typeof value !== 'string' || (value.length === 0 && params.ignoreEmpty)) {
+    return _UNDEFINED
+  }
+  if (params.redaction) {
+    value = params.redaction.redactString(value)
+  }
+  if (value.length > params.maxStringLength) {
+    value = value.substring(0, params.maxStringLength)
+    ctx?.report('cutStrings')
+  }
+  return [VALUE_TYPES.meta, { [params.metaFieldName]: { type, value } }]
+}
+
+function _urlType (value: object): null | 'url' | 'urlsearchparams' {
+  // URL отсутствует в lib es2022 и может отсутствовать в окружении
+  const URLCtor: unknown = Reflect.get(globalThis, 'URL')
+  if (typeof URLCtor === 'function' && value instanceof URLCtor) {
+    return 'url'
+  }
+  const URLSearchParamsCtor: unknown = Reflect.get(globalThis, 'URLSearchParams')
+  if (typeof URLSearchParamsCtor === 'function' && value instanceof URLSearchParamsCtor) {
+    return 'urlsearchparams'
+  }
+  return null
+}
+
+/**
+ * Сериализует результат инспектора пользовательского типа {@link TTypeInspectorResult}. JSON сериализуется повторно
+ * без инспекторов верхнего уровня, что не позволяет инспектору зациклиться на собственном результате.
+ */
+function inspectCustom (result: TTypeInspectorResult, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResult {
+  if ('meta' in result) {
+    const meta = { ...result.meta }
+    if (typeof meta.value === 'string') {
+      if (params.redaction) {
+        meta.value = params.redaction.redactString(meta.value)
+      }
+      if (meta.value.length > params.maxStringLength) {
+        meta.value = meta.value.substring(0, params.maxStringLength)
+        ctx.report('cutStrings')
+      }
+    }
+    // Массивы и объекты значения, например пары `map`, подчиняются тем же ограничениям, что и остальные данные
+    else if (typeof meta.value === 'object' && meta.value !== null) {
+      const source: unknown = meta.value
+      ctx.pushPath(params.metaFieldName)
+      ctx.pushPath('value')
+      // Значение заместителя дополняет поля инспектора и собирается в объект даже при записи в поток
+      const writer = ctx.useWriter(null)
+      const inspected = inspectAny(source, params, ctx, level + 1)
+      ctx.useWriter(writer)
+      ctx.popPath()
+      ctx.popPath()
+      Object.assign(meta, { value: inspected[0] === VALUE_TYPES.undefined ? (Array.isArray(source) ? [] : null) : inspected[1] })
+    }
+    return [VALUE_TYPES.meta, { [params.metaFieldName]: meta as TMetaValue }]
+  }
+  const json = result.json
+  if (typeof json !== 'object' || json === null) {
+    return inspectPrimitive(json, params, ctx)
+  }
+  return Array.isArray(json)
+    ? inspectArray(json, params, ctx, level)
+    : inspectObject(json, params, ctx, level)
+}
+
+/**
+ * Безопасно вызывает метод {@link TO_JSON_LIKE} объекта {@link IJsonLikeProjection}.
+ *
+ * @returns Обертка результата или `undefined`, если метода нет, он бросил исключение, вернул `undefined` или сам объект.
+ */
+function readJsonLikeProjection (obj: object): undefined | { value: unknown } {
+  try {
+    const method: unknown = Reflect.get(obj, TO_JSON_LIKE)
+    if (typeof method === 'function') {
+      const value: unknown = Reflect.apply(method, obj, [])
+      if (typeof value !== 'undefined' && value !== obj) {
+        return { value }
+      }
+    }
+  } catch { /**/ }
+  return undefined
+}
+
+/**
+ * Сериализует результат {@link readJsonLikeProjection()} на том же уровне, что и исходный объект. Проекция,
+ * повторно реализующая протокол, сериализуется как обычный объект, что исключает бесконечную рекурсию.
+ */
+function inspectProjection (projection: unknown, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResult {
+  if (typeof projection === 'object' && projection !== null && !Array.isArray(projection)) {
+    let nested = false
+    try {
+      nested = TO_JSON_LIKE in projection
+    } catch { /**/ }
+    if (nested) {
+      return inspectObject(projection, params, ctx, level)
+    }
+  }
+  return inspectAny(projection, params, ctx, level)
 }
 
 function inspectAny (anySource: any, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResult {
@@ -804,7 +1617,7 @@ function inspectAny (anySource: any, params: SerializationParameters, ctx: Seria
   }
   const type = typeof anySource
   if (type !== 'object') {
-    return _inspectPrimitive(type, anySource, params)
+    return _inspectPrimitive(type, anySource, params, ctx)
   }
 
   // Типы Date и RegExp не следует считать объектами
@@ -818,7 +1631,33 @@ function inspectAny (anySource: any, params: SerializationParameters, ctx: Seria
 
   // Дальше одни объекты - чтоб лишний раз не входить проверим и здесь
   if (ctx.has(anySource)) {
-    return _UNDEFINED
+    return inspectCircular(anySource, params, ctx)
+  }
+
+  // Без заместителей повторные ссылки удаляются, как и прежде
+  if (!params.markCircular) {
+    return _inspectAnyObject(anySource, params, ctx, level)
+  }
+  // С заместителями объекты остаются в контексте только на время обхода вложенных значений: повторная ссылка вне
+  // цепочки предков не является циклом и сериализуется заново
+  const mark = ctx.mark()
+  const result = _inspectAnyObject(anySource, params, ctx, level)
+  ctx.release(mark)
+  return result
+}
+
+function _inspectAnyObject (anySource: any, params: SerializationParameters, ctx: SerializationContext, level: 0 | number): TSerResult {
+  // Пользовательские типы имеют приоритет над стандартной обработкой объектов
+  const custom = params.inspectors?.inspect(anySource)
+  if (custom) {
+    return inspectCustom(custom, params, ctx, level)
+  }
+
+  const projection = readJsonLikeProjection(anySource)
+  if (projection) {
+    // Исходный объект не должен повторно попасть в сериализацию через собственную проекцию
+    ctx.add(anySource)
+    return inspectProjection(projection.value, params, ctx, level)
   }
 
   if (isErrorLike(anySource)) {
@@ -835,6 +1674,23 @@ function inspectAny (anySource: any, params: SerializationParameters, ctx: Seria
     return inspectError(anySource, params, ctx, level)
   }
 
+  if (anySource instanceof Map) {
+    return inspectMap(anySource, params, ctx, level)
+  }
+
+  if (anySource instanceof Set) {
+    return inspectSet(anySource, params, ctx, level)
+  }
+
+  if (isBinary(anySource)) {
+    return inspectBinary(anySource, params)
+  }
+
+  const urlType = _urlType(anySource)
+  if (urlType) {
+    return inspectUrl(anySource, urlType, params, ctx)
+  }
+
   return inspectObject(anySource, params, ctx, level)
 }
 
@@ -880,7 +1736,7 @@ function ensureSerResultAsObject (serResult: TSerResult, metaFieldName: string):
 function errorLikeToJsonLike (error: { detail: IErrorDetail }, options?: TNullish | TSerializationOptions | SerializationParameters): Record<string, any> {
   const params = ensureSerializationParameters(options)
   const result = inspectDetail(error, params, new SerializationContext(params.maxTotalItems, params.maxItems), 0)
-  return ensureSerResultAsObject(result, params.metaFieldName)
+  return fitJsonToByteBudget(ensureSerResultAsObject(result, params.metaFieldName), params)
 }
 
 /**
@@ -894,7 +1750,7 @@ function errorLikeToJsonLike (error: { detail: IErrorDetail }, options?: TNullis
 function nativeErrorToJsonLike (error: Error, options?: TNullish | TSerializationOptions | SerializationParameters): Record<string, any> {
   const params = ensureSerializationParameters(options)
   const result = inspectError(error, params, new SerializationContext(params.maxTotalItems, params.maxItems), 0)
-  return ensureSerResultAsObject(result, params.metaFieldName)
+  return fitJsonToByteBudget(ensureSerResultAsObject(result, params.metaFieldName), params)
 }
 
 /**
@@ -909,7 +1765,67 @@ function nativeErrorToJsonLike (error: Error, options?: TNullish | TSerializatio
 function errorToJsonLike (anyValue: any, options?: TNullish | TSerializationOptions | SerializationParameters): Record<string, any> | TMetaValue {
   const params = ensureSerializationParameters(options)
   const result = inspectAny(anyValue, params, new SerializationContext(params.maxTotalItems, params.maxItems), 0)
-  return ensureSerResultAsObject(result, params.metaFieldName)
+  return fitJsonToByteBudget(ensureSerResultAsObject(result, params.metaFieldName), params)
+}
+
+/**
+ * Создает пустой отчет сериализации {@link TSerializationReport}.
+ */
+function createSerializationReport (): TSerializationReport {
+  return { truncated: [], depthLimited: [], cutStrings: [], failedGetters: [], cycles: [], budgetExhausted: false }
+}
+
+/**
+ * Вариант {@link errorToJsonLike()}, дополнительно возвращающий отчет {@link TSerializationReport} о данных, не
+ * вошедших в результат из-за ограничений, ошибок чтения полей и циклических ссылок.
+ *
+ * @param anyValue Предполагаемая ошибка.
+ * @param options  Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
+ *
+ * @example
+ * ```ts
+ * const { json, report } = errorToJsonLikeWithReport(error, { maxDepth: 2 })
+ * metrics.count('error.truncated', report.truncated.length)
+ * ```
+ */
+function errorToJsonLikeWithReport (anyValue: any, options?: TNullish | TSerializationOptions | SerializationParameters): { json: Record<string, any> | TMetaValue, report: TSerializationReport } {
+  const params = ensureSerializationParameters(options)
+  const report = createSerializationReport()
+  const result = inspectAny(anyValue, params, new SerializationContext(params.maxTotalItems, params.maxItems, undefined, report), 0)
+  return { json: fitJsonToByteBudget(ensureSerResultAsObject(result, params.metaFieldName), params, report), report }
+}
+
+/**
+ * Обходит значение функцией `inspect`, записывая результат в поток `writer` по мере обхода. Результат, который обход
+ * не записал сам, например примитив или заместитель, записывается после обхода, как его заворачивает
+ * {@link ensureSerResultAsObject()}.
+ */
+function writeInspected (writer: StreamWriter, params: SerializationParameters, inspect: (ctx: SerializationContext) => TSerResult): void {
+  const result = inspect(new SerializationContext(params.maxTotalItems, params.maxItems, undefined, null, writer))
+  if (!_isStreamed(result)) {
+    writer.value(ensureSerResultAsObject(result, params.metaFieldName))
+  }
+}
+
+/**
+ * Можно ли записать текст по мере обхода. Бюджет {@link TSerializationOptions.maxBytes} применяется к готовому
+ * объекту, а пользовательский {@link TSerializationOptions.formatter} принимает объект целиком.
+ */
+function _canStreamText (params: SerializationParameters): boolean {
+  return params.maxBytes === null && !params.formatter
+}
+
+/**
+ * Записывает результат сериализации в текстовом формате {@link TSerializationOptions.formatter} или, если он не
+ * установлен, стандартным {@link writeTextInto()}.
+ */
+function writeFormattedTextInto (objectSource: TJsonObject, sink: TWriterSink, params: SerializationParameters): void {
+  if (params.formatter) {
+    params.formatter.writeInto(objectSource, sink, params.metaFieldName)
+  }
+  else {
+    writeTextInto(objectSource, sink)
+  }
 }
 
 /**
@@ -921,10 +1837,15 @@ function errorToJsonLike (anyValue: any, options?: TNullish | TSerializationOpti
  * @param options Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
  */
 function errorLikeToToString (error: { detail: IErrorDetail }, options?: TNullish | TSerializationOptions | SerializationParameters): string {
-  const json = errorLikeToJsonLike(error, options)
-  const receiver: string[] = []
-  jsonObjectInto(json, receiver, 0)
-  return receiver.join('\n')
+  const params = ensureSerializationParameters(options)
+  const sink = new StringSink()
+  if (_canStreamText(params)) {
+    writeInspected(new TextStreamWriter(sink.write, params.metaFieldName), params, (ctx) => inspectDetail(error, params, ctx, 0))
+  }
+  else {
+    writeFormattedTextInto(errorLikeToJsonLike(error, params) as TJsonObject, sink.write, params)
+  }
+  return sink.value
 }
 
 /**
@@ -936,10 +1857,15 @@ function errorLikeToToString (error: { detail: IErrorDetail }, options?: TNullis
  * @param options Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
  */
 function nativeErrorToString (error: Error, options?: TNullish | TSerializationOptions | SerializationParameters): string {
-  const json = nativeErrorToJsonLike(error, options)
-  const receiver: string[] = []
-  jsonObjectInto(json, receiver, 0)
-  return receiver.join('\n')
+  const params = ensureSerializationParameters(options)
+  const sink = new StringSink()
+  if (_canStreamText(params)) {
+    writeInspected(new TextStreamWriter(sink.write, params.metaFieldName), params, (ctx) => inspectError(error, params, ctx, 0))
+  }
+  else {
+    writeFormattedTextInto(nativeErrorToJsonLike(error, params) as TJsonObject, sink.write, params)
+  }
+  return sink.value
 }
 
 /**
@@ -951,10 +1877,50 @@ function nativeErrorToString (error: Error, options?: TNullish | TSerializationO
  * @param options  Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
  */
 function errorToString (anyValue: any, options?: TNullish | TSerializationOptions | SerializationParameters): string {
-  const json = errorToJsonLike(anyValue, options)
-  const receiver: string[] = []
-  jsonObjectInto(json, receiver, 0)
-  return receiver.join('\n')
+  const params = ensureSerializationParameters(options)
+  const sink = new StringSink()
+  errorWriteText(anyValue, sink.write, params)
+  return sink.value
+}
+
+/**
+ * Сериализует любое значение, как {@link errorToJsonLike()}, и записывает результат в формате JSON в приемник
+ * фрагментов по мере обхода, без промежуточного объекта. Результат совпадает с `JSON.stringify(errorToJsonLike())`.
+ *
+ * С опцией {@link TSerializationOptions.maxBytes} бюджет применяется к готовому объекту, поэтому запись выполняется
+ * после обхода.
+ *
+ * @param anyValue Предполагаемая ошибка.
+ * @param sink     Приемник фрагментов, например `(chunk) => stream.write(chunk)`.
+ * @param options  Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
+ */
+function errorWriteJson (anyValue: any, sink: TWriterSink, options?: TNullish | TSerializationOptions | SerializationParameters): void {
+  const params = ensureSerializationParameters(options)
+  if (params.maxBytes === null) {
+    writeInspected(new JsonStreamWriter(sink, params.metaFieldName), params, (ctx) => inspectAny(anyValue, params, ctx, 0))
+  }
+  else {
+    writeJsonInto(errorToJsonLike(anyValue, params) as TJsonObject, sink)
+  }
+}
+
+/**
+ * Сериализует любое значение и записывает результат в текстовом формате {@link errorToString()} в приемник фрагментов
+ * по мере обхода. С опциями {@link TSerializationOptions.maxBytes} или {@link TSerializationOptions.formatter}
+ * запись выполняется после обхода.
+ *
+ * @param anyValue Предполагаемая ошибка.
+ * @param sink     Приемник фрагментов.
+ * @param options  Пользовательские опции {@link TSerializationOptions} или {@link SerializationParameters}.
+ */
+function errorWriteText (anyValue: any, sink: TWriterSink, options?: TNullish | TSerializationOptions | SerializationParameters): void {
+  const params = ensureSerializationParameters(options)
+  if (_canStreamText(params)) {
+    writeInspected(new TextStreamWriter(sink, params.metaFieldName), params, (ctx) => inspectAny(anyValue, params, ctx, 0))
+  }
+  else {
+    writeFormattedTextInto(errorToJsonLike(anyValue, params) as TJsonObject, sink, params)
+  }
 }
 
 export {
@@ -977,21 +1943,40 @@ export {
   safeArrayLength,
   safeReadCodeInto,
   safeReadStackInto,
+  safeReadStackFramesInto,
+  readStackInto,
   safeReadStringInto,
   safeReadPropsInto,
+  readPlannedPropsInto,
+  inspectCircular,
   inspectPrimitive,
   inspectDate,
   inspectRegExp,
   inspectObject,
   inspectArray,
   inspectDetail,
+  isAggregateError,
   inspectError,
+  inspectMap,
+  inspectSet,
+  isBinary,
+  inspectBinary,
+  inspectUrl,
+  inspectCustom,
+  readJsonLikeProjection,
+  inspectProjection,
   inspectAny,
   ensureSerResultAsObject,
   errorLikeToJsonLike,
   nativeErrorToJsonLike,
   errorToJsonLike,
+  createSerializationReport,
+  errorToJsonLikeWithReport,
+  writeInspected,
+  writeFormattedTextInto,
   errorLikeToToString,
   nativeErrorToString,
-  errorToString
+  errorToString,
+  errorWriteJson,
+  errorWriteText
 }
@@ -0,0 +1,174 @@
+import { describe, test, expect } from 'vitest'
+import { LiteError } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  parseStackFrame,
+  parseStackTrace,
+  formatStackFrame,
+  normalizeStackPatterns,
+  shapeStackTrace
+} from './stack.ts'
+
+const frame = (props: Record<string, any>) => ({
+  functionName: null,
+  file: null,
+  line: null,
+  column: null,
+  isNative: false,
+  isAsync: false,
+  isEval: false,
+  ...props
+})
+
+describe('stack', () => {
+  test('V8', () => {
+    const stack = [
+      'Error: boom',
+      '    at run (/app/main.js:10:5)',
+      '    at new Foo (file:///app/foo.mjs:3:12)',
+      '    at /app/anonymous.js:7:1',
+      '    at async Promise.all (index 0)',
+      '    at async load (/app/load.js:2:9)',
+      '    at Array.map (<anonymous>)',
+      '    at Math.max (native)',
+      '    at eval (eval at compile (/app/compile.js:4:8), <anonymous>:1:3)'
+    ].join('\n')
+    expect(parseStackTrace(stack)).toStrictEqual([
+      frame({ functionName: 'run', file: '/app/main.js', line: 10, column: 5 }),
+      frame({ functionName: 'new Foo', file: 'file:///app/foo.mjs', line: 3, column: 12 }),
+      frame({ file: '/app/anonymous.js', line: 7, column: 1 }),
+      frame({ functionName: 'Promise.all', isAsync: true }),
+      frame({ functionName: 'load', file: '/app/load.js', line: 2, column: 9, isAsync: true }),
+      frame({ functionName: 'Array.map' }),
+      frame({ functionName: 'Math.max', isNative: true }),
+      frame({ functionName: 'eval', file: '/app/compile.js', line: 1, column: 3, isEval: true })
+    ])
+  })
+
+  test('SpiderMonkey', () => {
+    const stack = [
+      'run@http://localhost:8080/main.js:10:5',
+      '@http://localhost:8080/main.js:20:1',
+      'async*load@http://localhost:8080/load.js:2:9',
+      'compile@http://localhost:8080/compile.js line 4 > eval:1:3',
+      ''
+    ].join('\n')
+    expect(parseStackTrace(stack)).toStrictEqual([
+      frame({ functionName: 'run', file: 'http://localhost:8080/main.js', line: 10, column: 5 }),
+      frame({ file: 'http://localhost:8080/main.js', line: 20, column: 1 }),
+      frame({ functionName: 'load', file: 'http://localhost:8080/load.js', line: 2, column: 9, isAsync: true }),
+      frame({ functionName: 'compile', file: 'http://localhost:8080/compile.js', line: 1, column: 3, isEval: true })
+    ])
+  })
+
+  test('JavaScriptCore', () => {
+    const stack = [
+      'run@http://localhost/main.js:10:5',
+      'forEach@[native code]',
+      'eval code@',
+      'global code@http://localhost/main.js:20:1'
+    ].join('\n')
+    expect(parseStackTrace(stack)).toStrictEqual([
+      frame({ functionName: 'run', file: 'http://localhost/main.js', line: 10, column: 5 }),
+      frame({ functionName: 'forEach', isNative: true }),
+      frame({ file: 'http://localhost/main.js', line: 20, column: 1 })
+    ])
+  })
+
+  test('parseStackFrame ignores non-frame lines', () => {
+    expect(parseStackFrame('Error: boom')).toBe(null)
+    expect(parseStackFrame('Error: write to admin@example.com')).toBe(null)
+    expect(parseStackTrace(null)).toStrictEqual([])
+    expect(parseStackTrace('')).toStrictEqual([])
+  })
+
+  test('stackFrames option', () => {
+    const error = new LiteError({
+      message: 'boom',
+      stack: 'Error: boom\n    at run (/app/main.js:10:5)\n    at main (/app/index.js:1:1)\n    at /app/boot.js:2:2'
+    })
+    expect(errorToJsonLike(error, { includeStack: true, stackFrames: true })).toStrictEqual({
+      name: 'LiteError',
+      message: 'boom',
+      stack: [
+        frame({ functionName: 'run', file: '/app/main.js', line: 10, column: 5 }),
+        frame({ functionName: 'main', file: '/app/index.js', line: 1, column: 1 }),
+        frame({ file: '/app/boot.js', line: 2, column: 2 })
+      ]
+    })
+    error.detail.stack += '\n    at /app/boot.js:3:3'
+    expect(errorToJsonLike(error, { includeStack: true, stackFrames: true, maxItems: 3, maxStringLength: 8 })).toStrictEqual({
+      name: 'LiteError',
+      message: 'boom',
+      stack: [
+        frame({ functionName: 'run', file: '/app/mai', line: 10, column: 5 }),
+        frame({ functionName: 'main', file: '/app/ind', line: 1, column: 1 }),
+        frame({ file: '/app/boo', line: 2, column: 2 }),
+        { __meta: { kind: 'array', total: 4, truncated: 1 } }
+      ]
+    })
+    // Строка без кадров не попадает в результат
+    expect(errorToJsonLike(new LiteError({ stack: 'just text' }), { includeStack: true, stackFrames: true }))
+      .toStrictEqual({ name: 'LiteError' })
+  })
+
+  test('formatStackFrame', () => {
+    expect(formatStackFrame(parseStackFrame('    at run (/app/main.js:10:5)') ?? {})).toBe('at run (/app/main.js:10:5)')
+    expect(formatStackFrame(parseStackFrame('    at async main (/app/main.js:3:1)') ?? {})).toBe('at async main (/app/main.js:3:1)')
+    expect(formatStackFrame(parseStackFrame('    at /app/main.js:7') ?? {})).toBe('at /app/main.js:7')
+    expect(formatStackFrame({ functionName: 'Array.map', isNative: true })).toBe('at Array.map (native)')
+    expect(formatStackFrame({})).toBe('at <anonymous>')
+  })
+
+  test('normalizeStackPatterns', () => {
+    expect(normalizeStackPatterns(null)).toBe(null)
+    expect(normalizeStackPatterns(['', 1])).toBe(null)
+    const re = /node_modules/g
+    const patterns = normalizeStackPatterns(['node:internal', re]) as any[]
+    expect(patterns[0]).toBe('node:internal')
+    expect(patterns[1]).not.toBe(re)
+    expect(patterns[1].flags).toBe('')
+  })
+
+  test('shapeStackTrace', () => {
+    const stack = [
+      'Error: boom',
+      '    at run (file:///home/ci/app/src/main.js:10:5)',
+      '    at Module._compile (node:internal/modules/cjs/loader:1:1)',
+      '    at use (/home/ci/app/node_modules/lib/index.js:1:1)',
+      '    at next (/home/ci/app/node_modules/lib/router.js:2:2)',
+      '    at main (/home/ci/app/src/index.js:1:1)',
+      '    at boot (/home/ci/app/node_modules/lib/boot.js:3:3)'
+    ].join('\n')
+    expect(shapeStackTrace(stack, {
+      drop: ['node:internal'],
+      collapse: [/node_modules/],
+      root: '/home/ci/app',
+      stripFileUrl: true
+    })).toBe([
+      'Error: boom',
+      '    at run (src/main.js:10:5)',
+      '    ... 2 frames hidden',
+      '    at main (src/index.js:1:1)',
+      '    ... 1 frame hidden'
+    ].join('\n'))
+    expect(shapeStackTrace('run@file:///C:/app/main.js:1:1', { stripFileUrl: true })).toBe('run@C:/app/main.js:1:1')
+    expect(shapeStackTrace('run@file:///C:/app/main.js:1:1', { root: 'C:/app/' })).toBe('run@main.js:1:1')
+  })
+
+  test('stack shaping options', () => {
+    const error = new LiteError({
+      stack: 'Error\n    at run (/home/ci/app/src/main.js:10:5)\n    at use (/home/ci/app/node_modules/lib/index.js:1:1)'
+    })
+    expect(error.toJsonWith({ includeStack: true, stackRoot: '/home/ci/app', stackCollapse: 'node_modules' })).toStrictEqual({
+      name: 'LiteError',
+      stack: '    at run (src/main.js:10:5)\n    ... 1 frame hidden'
+    })
+    expect(error.toJsonWith({ includeStack: true, stackFrames: true, stackRoot: '/home/ci/app', stackDrop: 'node_modules' })).toStrictEqual({
+      name: 'LiteError',
+      stack: [frame({ functionName: 'run', file: 'src/main.js', line: 10, column: 5 })]
+    })
+    expect(error.toJsonWith({ includeStack: true, stackDrop: /at/ })).toStrictEqual({ name: 'LiteError' })
+  })
+})
@@ -0,0 +1,344 @@
+import type { TNullish } from './types.ts'
+
+// V8: `    at async fn (file:1:2)`, `    at file:1:2`, `    at new Foo (native)`
+const _RE_V8 = /^[\t ]*at[\t ]+(.*)$/
+const _RE_V8_CALL = /^(.*?)[\t ]+\((.*)\)$/
+// SpiderMonkey: `async*fn@file:1:2`, `fn@file line 2 > eval:1:3`; JavaScriptCore: `fn@[native code]`, `global code@file:1:2`
+const _RE_AT_SIGN = /^([^@]*)@(.+)$/
+const _RE_LOCATION = /^(.*?)(?::(\d+))?(?::(\d+))?$/
+const _RE_V8_EVAL = /^eval at .*?\((.*?)\),[\t ]*(.*)$/
+const _RE_SM_EVAL = /^(.*?) line \d+ > (?:eval|Function)(.*)$/
+// `file:///C:/app` -> `C:/app`, `file:///app` -> `/app`
+const _RE_FILE_URL = /file:\/\/(?:\/(?=[A-Za-z]:))?/g
+const _RE_INDENT = /^[\t ]*/
+
+/**
+ * Разобранная строка стека вызовов.
+ */
+type TStackFrame = {
+  /**
+   * Имя функции или `null` для анонимных функций и кода верхнего уровня.
+   */
+  functionName: null | string
+  /**
+   * Имя файла или URL. Для `eval` это файл, в котором был вызван `eval`.
+   */
+  file: null | string
+  line: null | number
+  column: null | number
+  /**
+   * Встроенная функция движка(`native`, `[native code]`).
+   */
+  isNative: boolean
+  /**
+   * Асинхронная граница(`at async fn`, `async*fn@`).
+   */
+  isAsync: boolean
+  /**
+   * Код выполняемый через `eval` или `new Function`.
+   */
+  isEval: boolean
+}
+
+function _toInt (value: undefined | string): null | number {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const num = Number.parseInt(value, 10)
+  return Number.isSafeInteger(num) ? num : null
+}
+
+function _createFrame (functionName: TNullish | string): TStackFrame {
+  return {
+    functionName: (typeof functionName === 'string' && functionName.length > 0) ? functionName : null,
+    file: null,
+    line: null,
+    column: null,
+    isNative: false,
+    isAsync: false,
+    isEval: false
+  }
+}
+
+/**
+ * Записывает в кадр файл, строку и колонку из строки вида `file:line:column`.
+ *
+ * @returns `false`, если строка не содержит номера строки.
+ */
+function _parseLocationInto (location: string, frame: TStackFrame): boolean {
+  const match = _RE_LOCATION.exec(location) as RegExpExecArray
+  const file = match[1] as string
+  frame.line = _toInt(match[2])
+  frame.column = _toInt(match[3])
+  if (file.length > 0) {
+    frame.file = file === '<anonymous>' ? null : file
+  }
+  return frame.line !== null
+}
+
+function _parseV8Location (location: string, frame: TStackFrame): void {
+  if (location === 'native') {
+    frame.isNative = true
+    return
+  }
+  const evalMatch = _RE_V8_EVAL.exec(location)
+  if (evalMatch) {
+    frame.isEval = true
+    // Позиция внутри eval указывается последней, а файл вызова eval внутри скобок
+    const origin = _createFrame(null)
+    _parseLocationInto(evalMatch[1] as string, origin)
+    _parseLocationInto(evalMatch[2] as string, frame)
+    frame.file = origin.file
+    return
+  }
+  if (!_parseLocationInto(location, frame) && frame.file !== null && /\s/.test(frame.file)) {
+    // `(index 0)` в `Promise.all` и подобные - не являются файлами
+    frame.file = null
+  }
+}
+
+function _parseV8Frame (body: string): TStackFrame {
+  let isAsync = false
+  if (body.startsWith('async ')) {
+    isAsync = true
+    body = body.slice(6)
+  }
+  const call = _RE_V8_CALL.exec(body)
+  const frame = _createFrame(call ? call[1] : null)
+  _parseV8Location(call ? call[2] as string : body, frame)
+  frame.isAsync = isAsync
+  if (frame.functionName === 'eval' || frame.functionName?.startsWith('eval ')) {
+    frame.isEval = true
+  }
+  return frame
+}
+
+function _parseAtSignFrame (functionName: string, location: string): null | TStackFrame {
+  let isAsync = false
+  if (functionName.startsWith('async*')) {
+    isAsync = true
+    functionName = functionName.slice(6)
+  }
+  const frame = _createFrame(functionName)
+  frame.isAsync = isAsync
+  if (location === '[native code]') {
+    frame.isNative = true
+    return frame
+  }
+  const evalMatch = _RE_SM_EVAL.exec(location)
+  if (evalMatch) {
+    frame.isEval = true
+    const inner = _createFrame(null)
+    _parseLocationInto(evalMatch[2] as string, inner)
+    frame.file = evalMatch[1] as string
+    frame.line = inner.line
+    frame.column = inner.column
+    return frame
+  }
+  if (!_parseLocationInto(location, frame)) {
+    return null
+  }
+  if (frame.functionName === 'eval code') {
+    frame.functionName = null
+    frame.isEval = true
+  }
+  else if (frame.functionName === 'global code' || frame.functionName === 'module code') {
+    frame.functionName = null
+  }
+  return frame
+}
+
+/**
+ * Разбирает одну строку стека вызовов V8, SpiderMonkey или JavaScriptCore.
+ *
+ * @param line Строка стека.
+ * @returns Кадр стека или `null`, если строка не похожа на кадр(например заголовок `Error: message`).
+ */
+function parseStackFrame (line: string): null | TStackFrame {
+  const v8 = _RE_V8.exec(line)
+  if (v8) {
+    return _parseV8Frame((v8[1] as string).trim())
+  }
+  const atSign = _RE_AT_SIGN.exec(line.trim())
+  if (atSign) {
+    return _parseAtSignFrame(atSign[1] as string, atSign[2] as string)
+  }
+  return null
+}
+
+/**
+ * Разбирает стек вызовов V8, SpiderMonkey или JavaScriptCore в массив кадров {@link TStackFrame}.
+ *
+ * Строки, которые не являются кадрами(заголовок `Error: message`, пустые строки), пропускаются.
+ *
+ * @param stack Строка стека, например `Error.stack`.
+ *
+ * @example
+ * ```ts
+ * parseStackTrace('Error: boom\n    at run (/app/main.js:10:5)')
+ * // [{ functionName: 'run', file: '/app/main.js', line: 10, column: 5, isNative: false, isAsync: false, isEval: false }]
+ * ```
+ */
+function parseStackTrace (stack: TNullish | string): TStackFrame[] {
+  if (typeof stack !== 'string' || stack.length === 0) {
+    return []
+  }
+  const frames: TStackFrame[] = []
+  for (const line of stack.split('\n')) {
+    if (line.length > 0) {
+      const frame = parseStackFrame(line)
+      if (frame) {
+        frames.push(frame)
+      }
+    }
+  }
+  return frames
+}
+
+/**
+ * Приводит кадр стека {@link TStackFrame} к строке вида `at run (/app/main.js:10:5)`. Принимает так же кадры,
+ * прочитанные из JSON, в которых часть полей может отсутствовать.
+ */
+function formatStackFrame (frame: Readonly<Partial<TStackFrame>>): string {
+  let location = frame.isNative ? 'native' : (frame.file ?? '<anonymous>')
+  if (!frame.isNative && typeof frame.line === 'number') {
+    location += `:${frame.line}`
+    if (typeof frame.column === 'number') {
+      location += `:${frame.column}`
+    }
+  }
+  const name = frame.functionName ?? null
+  const prefix = frame.isAsync ? 'async ' : ''
+  return name === null ? `at ${prefix}${location}` : `at ${prefix}${name} (${location})`
+}
+
+/**
+ * Шаблон строки стека: подстрока или регулярное выражение.
+ */
+type TStackPattern = string | RegExp
+
+/**
+ * Опции {@link shapeStackTrace()}.
+ */
+type TStackShapeOptions = {
+  /**
+   * Удалить кадры, строка которых соответствует любому из шаблонов.
+   */
+  drop?: TNullish | readonly TStackPattern[]
+  /**
+   * Заменить последовательные кадры, соответствующие любому из шаблонов(например `'node_modules'`), одной строкой
+   * `... N frames hidden`.
+   */
+  collapse?: TNullish | readonly TStackPattern[]
+  /**
+   * Корневой каталог. Абсолютные пути внутри этого каталога переписываются относительными.
+   */
+  root?: TNullish | string
+  /**
+   * Удалить префиксы `file://`.
+   */
+  stripFileUrl?: TNullish | boolean
+}
+
+/**
+ * Приводит шаблоны к массиву строк и регулярных выражений. Флаги `g` и `y` удаляются из регулярных выражений, чтобы
+ * проверка не зависела от `lastIndex`.
+ *
+ * @returns Массив шаблонов или `null`, если нет ни одного допустимого шаблона.
+ */
+function normalizeStackPatterns (value: any): null | readonly TStackPattern[] {
+  const items: unknown[] = Array.isArray(value) ? value : [value]
+  const patterns: TStackPattern[] = []
+  for (const item of items) {
+    if (typeof item === 'string') {
+      if (item.length > 0) {
+        patterns.push(item)
+      }
+    }
+    else if (item instanceof RegExp) {
+      patterns.push((item.global || item.sticky) ? new RegExp(item.source, item.flags.replace(/[gy]/g, '')) : item)
+    }
+  }
+  return patterns.length > 0 ? Object.freeze(patterns) : null
+}
+
+function _testPatterns (line: string, patterns: TNullish | readonly TStackPattern[]): boolean {
+  if (patterns) {
+    for (const pattern of patterns) {
+      if (typeof pattern === 'string' ? line.includes(pattern) : pattern.test(line)) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+function _rewritePaths (line: string, root: null | string, stripFileUrl: boolean): string {
+  if (root) {
+    // Для Windows URL имеет вид `file:///C:/app`
+    line = line.split(`file:///${root}`).join('').split(`file://${root}`).join('').split(root).join('')
+  }
+  if (stripFileUrl) {
+    line = line.replace(_RE_FILE_URL, '')
+  }
+  return line
+}
+
+/**
+ * Удаляет, сворачивает и переписывает кадры строки стека. Шаблоны проверяются на исходной строке кадра, до
+ * перезаписи путей. Строки, которые не являются кадрами(заголовок `Error: message`), не изменяются.
+ *
+ * @param stack   Строка стека.
+ * @param options Опции {@link TStackShapeOptions}.
+ *
+ * @example
+ * ```ts
+ * shapeStackTrace(error.stack, { collapse: ['node_modules'], root: '/home/ci/app' })
+ * // Error: boom
+ * //     at run (src/main.js:10:5)
+ * //     ... 3 frames hidden
+ * ```
+ */
+function shapeStackTrace (stack: string, options: TStackShapeOptions): string {
+  let root = (typeof options.root === 'string' && options.root.length > 0) ? options.root : null
+  if (root && !root.endsWith('/') && !root.endsWith('\\')) {
+    root += root.includes('\\') && !root.includes('/') ? '\\' : '/'
+  }
+  const stripFileUrl = !!options.stripFileUrl
+  const result: string[] = []
+  let hidden = 0
+  let hiddenIndent = ''
+  for (const line of stack.split('\n')) {
+    const isFrame = parseStackFrame(line) !== null
+    if (isFrame && _testPatterns(line, options.drop)) {
+      continue
+    }
+    if (isFrame && _testPatterns(line, options.collapse)) {
+      if (hidden === 0) {
+        hiddenIndent = (_RE_INDENT.exec(line) as RegExpExecArray)[0]
+      }
+      ++hidden
+      continue
+    }
+    if (hidden > 0) {
+      result.push(`${hiddenIndent}... ${hidden} ${hidden === 1 ? 'frame' : 'frames'} hidden`)
+      hidden = 0
+    }
+    result.push(isFrame ? _rewritePaths(line, root, stripFileUrl) : line)
+  }
+  if (hidden > 0) {
+    result.push(`${hiddenIndent}... ${hidden} ${hidden === 1 ? 'frame' : 'frames'} hidden`)
+  }
+  return result.join('\n')
+}
+
+export {
+  type TStackFrame,
+  parseStackFrame,
+  parseStackTrace,
+  formatStackFrame,
+  type TStackPattern,
+  type TStackShapeOptions,
+  normalizeStackPatterns,
+  shapeStackTrace
+}
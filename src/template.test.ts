@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'vitest'
+//
+import {
+  type TTemplateKeys,
+  type TTemplateParams,
+  interpolate
+} from './template.ts'
+
+describe('template', () => {
+  test('interpolate', () => {
+    expect(interpolate('Resource {kind} {id} not found', { kind: 'user', id: 42 })).toBe('Resource user 42 not found')
+    expect(interpolate('Resource {id} not found', {})).toBe('Resource {id} not found')
+    expect(interpolate('{a}{a} {b}', { a: 1, b: null })).toBe('11 null')
+    expect(interpolate('Value {id}', null)).toBe('Value {id}')
+    expect(interpolate('Value { id } {1}', { ' id ': 1, 1: 2 })).toBe('Value { id } {1}')
+    expect(interpolate('Value {id}', { id: Object.create(null) })).toBe('Value {id}')
+  })
+
+  test('TTemplateParams', () => {
+    const params: TTemplateParams<'{kind} {id}'> = { kind: 'user', id: 42 }
+    // @ts-expect-error Отсутствует параметр id
+    const missing: TTemplateParams<'{kind} {id}'> = { kind: 'user' }
+    expect(interpolate('{kind}/{id}', params)).toBe('user/42')
+    expect(interpolate('{kind}/{id}', missing)).toBe('user/{id}')
+
+    // Имена подстановок совпадают с interpolate()
+    const keys: TTemplateParams<'{ id } {1} {a-b} {{x} {$y_1} {}'> = { x: 1, $y_1: 2 }
+    // @ts-expect-error Текст `{ id }` не является подстановкой
+    const extra: TTemplateKeys<'{ id } {x}'> = ' id '
+    expect(interpolate('{ id } {1} {a-b} {{x} {$y_1} {}', keys)).toBe('{ id } {1} {a-b} {1 2 {}')
+    expect(extra).toBe(' id ')
+  })
+})
@@ -0,0 +1,70 @@
+import type { TNullish } from './types.ts'
+
+/**
+ * Значение подстановки шаблона сообщения.
+ */
+type TTemplateValue = TNullish | boolean | number | bigint | string
+
+type _TLower = 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm' | 'n' | 'o' | 'p' | 'q' | 'r' | 's' |
+  't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+type _TIdentStart = _TLower | Uppercase<_TLower> | '_' | '$'
+type _TIdentPart = _TIdentStart | '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+type _TIsIdentTail<S extends string> = S extends '' ? true : S extends `${infer C}${infer R}` ? (C extends _TIdentPart ? _TIsIdentTail<R> : false) : false
+type _TIsIdent<S extends string> = S extends `${infer C}${infer R}` ? (C extends _TIdentStart ? _TIsIdentTail<R> : false) : false
+// Подстановкой является текст после последней `{` перед `}`, как и в `interpolate()`
+type _TLastBrace<S extends string> = S extends `${string}{${infer R}` ? _TLastBrace<R> : S
+
+/**
+ * Имена подстановок `{name}` строкового литерала шаблона. Как и {@link interpolate()}, учитываются только имена вида
+ * идентификатора `[A-Za-z_$][A-Za-z0-9_$]*`, а текст вида `{ id }` или `{1}` остается текстом.
+ *
+ * @example
+ * ```ts
+ * type T = TTemplateKeys<'Resource {kind} {id} not found'> // 'kind' | 'id'
+ * ```
+ */
+type TTemplateKeys<S extends string> = S extends `${string}{${infer K}}${infer R}`
+  ? (_TIsIdent<_TLastBrace<K>> extends true ? _TLastBrace<K> : never) | TTemplateKeys<R>
+  : never
+
+/**
+ * Параметры шаблона: объект с обязательными полями для каждой подстановки `{name}`.
+ */
+type TTemplateParams<S extends string> = { [K in TTemplateKeys<S>]: TTemplateValue }
+
+const _PLACEHOLDER_RE = /\{([A-Za-z_$][\w$]*)\}/g
+const _hasOwnProperty = Object.prototype.hasOwnProperty
+
+/**
+ * Подставляет значения параметров вместо `{name}`. Подстановки без собственного поля в `params` остаются как есть,
+ * что позволяет заметить пропущенный параметр в тексте ошибки, а не получить `undefined`.
+ *
+ * @param template Шаблон сообщения.
+ * @param params   Параметры шаблона.
+ *
+ * @example
+ * ```ts
+ * interpolate('Resource {id} not found', { id: 42 }) // 'Resource 42 not found'
+ * ```
+ */
+function interpolate (template: string, params?: TNullish | Readonly<Record<string, unknown>>): string {
+  if (!params) {
+    return template
+  }
+  return template.replace(_PLACEHOLDER_RE, (match: string, key: string) => {
+    if (!_hasOwnProperty.call(params, key)) {
+      return match
+    }
+    try {
+      return String(params[key])
+    } catch { /**/ }
+    return match
+  })
+}
+
+export {
+  type TTemplateValue,
+  type TTemplateKeys,
+  type TTemplateParams,
+  interpolate
+}
@@ -1,4 +1,5 @@
 import type { TSerializationOptions, SerializationParameters } from './options.ts'
+import type { TO_JSON_LIKE } from './constants.ts'
 
 type TNullish = undefined | null
 type TPrimitive = undefined | null | boolean | number | string | bigint | symbol
@@ -41,6 +42,38 @@ interface IErrorDetail {
    * Необязательное поле уровня ошибки. По умолчанию все ошибки считаются `'error'`.
    */
   level?: TNullish | TErrorLevel
+  /**
+   * Необязательный ключ сообщения для перевода {@link LocaleCatalog}. Поле `message` при этом остается текстом для
+   * журналов и используется, если перевод не найден.
+   */
+  messageKey?: TNullish | string
+  /**
+   * Необязательные параметры сообщения {@link messageKey}.
+   */
+  messageParams?: TNullish | Record<string, unknown>
+  /**
+   * Необязательное сообщение для клиента {@link toPublicJson()}. Поле `message` может содержать внутренние детали и
+   * предназначено для журналов.
+   */
+  publicMessage?: TNullish | string
+  /**
+   * Необязательный список полей, безопасных для передачи клиенту {@link toPublicJson()}.
+   */
+  publicFields?: TNullish | readonly string[]
+  /**
+   * Необязательный идентификатор ошибки, связывающий ответ клиенту с записью журнала. Устанавливается
+   * {@link toPublicJson()}, если ошибка не имеет публичного сообщения.
+   */
+  errorId?: TNullish | string
+}
+
+/**
+ * Объект, управляющий собственной сериализацией в составе ошибки. Результат метода {@link TO_JSON_LIKE} сериализуется
+ * вместо объекта с теми же ограничениями глубины и количества элементов. Если метод бросает исключение, объект
+ * сериализуется обычным образом.
+ */
+interface IJsonLikeProjection {
+  [TO_JSON_LIKE] (): unknown
 }
 
 /**
@@ -122,8 +155,27 @@ type TMetaValue =
   { type: 'null', value: null } |
   { type: 'boolean', value: boolean } |
   { type: 'number', value: number } |
-  { type: 'string' | 'date' | 'regexp' | 'bigint' | 'symbol' | 'function', value: string } |
-  { type: 'array', value: TJsonArray }
+  { type: 'string' | 'date' | 'regexp' | 'bigint' | 'symbol' | 'function' | 'url' | 'urlsearchparams', value: string } |
+  { type: 'array', value: TJsonArray } |
+  { type: 'custom', name: string, value: string } |
+  TMetaCollection |
+  TMetaBinary
+
+/**
+ * Метаинформация о {@link Map} или {@link Set}. Значение `map` является массивом пар `[key, value]`, `set` - массивом
+ * элементов. Усеченные массивы, как и обычные, содержат последним элементом {@link TMetaTruncated} `kind:'array'`.
+ */
+type TMetaCollection = { type: 'map' | 'set', value: TJsonArray }
+
+/**
+ * Метаинформация о двоичных данных `ArrayBuffer`, `TypedArray`, `DataView` или `Buffer`.
+ *
+ *  + `name`     - Имя конструктора, например `'Uint8Array'`.
+ *  + `length`   - Полный размер в байтах.
+ *  + `encoding` - Кодировка превью.
+ *  + `value`    - Превью первых байт, ограниченное `maxStringLength`.
+ */
+type TMetaBinary = { type: 'binary', name: string, length: number, encoding: 'hex' | 'base64', value: string }
 
 /**
  * Метаинформация об усеченном объекте.
@@ -153,11 +205,40 @@ type TMetaValue =
 type TMetaTruncated = { kind: 'object' | 'array', total: number, truncated: number }
 
 /**
- * Метаинформация о замещенном объекте, который не смог войти в результат по причине превышения глубины.
+ * Метаинформация о замещенном объекте, который не смог войти в результат по причине превышения глубины, или о
+ * циклической ссылке на объект-предок с его путем в выводе `ref: '$.cause.details[0]'`(опция `markCircular`).
+ *
+ * Путь `ref` указывает на место предка в результате сериализации, а не в исходном объекте: индексы массивов
+ * соответствуют выведенным элементам, а путь к элементам `Map` и `Set` проходит через их заместитель
+ * `__meta.value`. Например, `'$.headers.__meta.value[0][1]'` - значение первой пары `Map` в поле `headers`, а
+ * `'$.tags.__meta.value[2]'` - третий элемент `Set`.
  */
 type TMetaPlaceholder =
-  { kind: 'object' | 'array', length: number } |
-  { kind: 'error', name: string, message?: string }
+  { kind: 'object' | 'array' | 'map' | 'set', length: number } |
+  { kind: 'error', name: string, message?: string } |
+  { kind: 'circular', ref: string }
+
+/**
+ * Отчет сериализации о потерянных данных. Пути записываются в формате `$.cause.details[0]`.
+ *
+ *  + `truncated`       - Объекты и массивы, часть полей или элементов которых не вошла в результат.
+ *  + `depthLimited`    - Объекты, массивы и ошибки, замещенные из-за превышения глубины.
+ *  + `cutStrings`      - Строки, усеченные до `maxStringLength`.
+ *  + `failedGetters`   - Поля, чтение которых завершилось исключением.
+ *  + `cycles`          - Повторные ссылки: циклические ссылки на объекты-предки, а без `markCircular` также ссылки
+ *                        на уже сериализованные общие объекты.
+ *  + `budgetExhausted` - Исчерпан ли лимит `maxTotalItems`.
+ *
+ * Отчет заполняется независимо от опции `ignoreMeta`.
+ */
+type TSerializationReport = {
+  truncated: string[]
+  depthLimited: string[]
+  cutStrings: string[]
+  failedGetters: string[]
+  cycles: string[]
+  budgetExhausted: boolean
+}
 
 export {
   type TNullish,
@@ -168,11 +249,15 @@ export {
   type TJsonLike,
   type TErrorLevel,
   type IErrorDetail,
+  type IJsonLikeProjection,
   type ISerializable,
   type IErrorSerializable,
   type IErrorLike,
   type IErrorCollection,
   type TMetaValue,
+  type TMetaCollection,
+  type TMetaBinary,
   type TMetaTruncated,
-  type TMetaPlaceholder
+  type TMetaPlaceholder,
+  type TSerializationReport
 }
@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest'
+import { BaseError, LiteError } from './errors.ts'
+import { errorToJsonLike } from './serialization.ts'
+//
+import {
+  wrap,
+  lookupCode,
+  rootCode,
+  breadcrumb
+} from './wrap.ts'
+
+class AppError extends BaseError<Record<string, any>> {}
+
+describe('wrap', () => {
+  test('wrap keeps the original error as cause', () => {
+    const original = new Error('connection refused')
+    const wrapped = wrap(original, 'querying db')
+    expect(wrapped).toBeInstanceOf(LiteError)
+    expect(wrapped.detail.message).toBe('querying db')
+    expect(wrapped.detail.cause).toBe(original)
+
+    const app = wrap(wrapped, { message: 'loading user 42', code: 'E_USER', userId: 42 }, { errorClass: AppError })
+    expect(app).toBeInstanceOf(AppError)
+    expect(errorToJsonLike(app, { maxDepth: 4 })).toStrictEqual({
+      name: 'AppError',
+      message: 'loading user 42',
+      code: 'E_USER',
+      cause: {
+        name: 'LiteError',
+        message: 'querying db',
+        cause: { name: 'Error', message: 'connection refused' }
+      },
+      userId: 42
+    })
+  })
+
+  test('double wrapping is skipped', () => {
+    const wrapped = wrap(new Error('x'), { message: 'loading', code: 1 })
+    expect(wrap(wrapped, { message: 'loading', code: 1 })).toBe(wrapped)
+    expect(wrap(wrapped, { message: 'loading', code: 2 })).not.toBe(wrapped)
+    expect(wrap(wrapped, 'saving')).not.toBe(wrapped)
+    // Контекст с новыми полями не теряется
+    const withUser = wrap(wrapped, { message: 'loading', code: 1, userId: 42 })
+    expect(withUser).not.toBe(wrapped)
+    expect(withUser.detail).toStrictEqual({ name: 'LiteError', message: 'loading', code: 1, userId: 42, cause: wrapped })
+    expect(wrap(withUser, { message: 'loading', code: 1, userId: 42 })).toBe(withUser)
+    expect(wrap(withUser, { message: 'loading', code: 1, userId: 43 })).not.toBe(withUser)
+    // Нативная ошибка с тем же сообщением оборачивается
+    const native = new Error('loading')
+    expect(wrap(native, 'loading').detail.cause).toBe(native)
+  })
+
+  test('merge', () => {
+    const original = new AppError({ message: 'db', code: 'E_DB', table: 'users', attempt: 1 })
+    const wrapped = wrap(original, { message: 'loading', attempt: 2 }, { merge: true })
+    expect(wrapped.detail).toStrictEqual({ name: 'LiteError', message: 'loading', table: 'users', attempt: 2, cause: original })
+    expect(wrap(original, 'loading').detail).toStrictEqual({ name: 'LiteError', message: 'loading', cause: original })
+  })
+
+  test('lookupCode', () => {
+    const root = Object.assign(new Error('fs'), { code: 'ENOENT' })
+    const wrapped = wrap(wrap(root, 'reading config'), 'starting')
+    expect(lookupCode(wrapped)).toBe('ENOENT')
+    expect(lookupCode(wrap(wrapped, { message: 'boot', code: 'E_BOOT' }))).toBe('E_BOOT')
+    expect(lookupCode(new Error('none'))).toBe(undefined)
+    // Код вложенной ошибки AggregateError не является кодом цепочки
+    const aggregate = new AggregateError([Object.assign(new Error('sibling'), { code: 'E_SIBLING' })], 'many', { cause: root })
+    expect(lookupCode(wrap(aggregate, 'batch'))).toBe('ENOENT')
+  })
+
+  test('rootCode', () => {
+    const root = Object.assign(new Error('fs'), { code: 'ENOENT' })
+    const wrapped = wrap(wrap(root, { message: 'reading config', code: 'E_CONFIG' }), { message: 'boot', code: 'E_BOOT' })
+    expect(rootCode(wrapped)).toBe('ENOENT')
+    expect(lookupCode(wrapped)).toBe('E_BOOT')
+    expect(rootCode(wrap(new Error('fs'), { message: 'boot', code: 'E_BOOT' }))).toBe('E_BOOT')
+    expect(rootCode(new AggregateError([Object.assign(new Error('sibling'), { code: 'E_SIBLING' })], 'many'))).toBe(undefined)
+    expect(rootCode(null)).toBe(undefined)
+  })
+
+  test('breadcrumb', () => {
+    const error = wrap(wrap(new Error('connection refused'), 'querying db'), 'loading user 42')
+    expect(breadcrumb(error)).toBe('loading user 42: querying db: connection refused')
+    expect(breadcrumb(error, ' <- ')).toBe('loading user 42 <- querying db <- connection refused')
+    expect(breadcrumb(new LiteError({ message: 'a', cause: new LiteError({ message: 'a', cause: 'reason' }) }))).toBe('a: reason')
+    expect(breadcrumb(new Error(''))).toBe('')
+  })
+})
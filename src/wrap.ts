@@ -0,0 +1,171 @@
+import type { TNullish, IErrorDetail } from './types.ts'
+import { LiteError } from './errors.ts'
+import { isErrorLike } from './serialization.ts'
+import { iterateCauseChain } from './chain.ts'
+
+/**
+ * Контекст {@link wrap()}: сообщение или детали новой ошибки. Поле `cause` всегда заменяется исходной ошибкой.
+ */
+type TWrapContext = string | (IErrorDetail & Record<string, any>)
+
+/**
+ * Опции {@link wrap()}.
+ */
+type TWrapOptions<T extends object = LiteError> = {
+  /**
+   * Класс новой ошибки, конструктор которого принимает детали. По умолчанию {@link LiteError}.
+   */
+  errorClass?: TNullish | (new (detail: IErrorDetail & Record<string, any>) => T)
+  /**
+   * Копировать ли в детали новой ошибки пользовательские поля исходной {@link ErrorLike}. Поля контекста имеют
+   * приоритет. По умолчанию `false`.
+   */
+  merge?: TNullish | boolean
+}
+
+const _DETAIL_KEYS: ReadonlySet<string> = new Set(['name', 'message', 'code', 'stack', 'cause', 'level'])
+
+function _readDetail (error: unknown): null | IErrorDetail {
+  try {
+    if (isErrorLike(error)) {
+      const detail: unknown = error.detail
+      return (typeof detail === 'object' && detail !== null) ? detail : null
+    }
+  } catch { /**/ }
+  return null
+}
+
+function _readField (error: unknown, key: string): unknown {
+  if (typeof error !== 'object' || error === null) {
+    return undefined
+  }
+  try {
+    const detail = _readDetail(error)
+    return detail ? (detail as Record<string, unknown>)[key] : (error as Record<string, unknown>)[key]
+  } catch { /**/ }
+  return undefined
+}
+
+/**
+ * Совпадают ли все поля контекста, кроме заменяемого `cause`, с полями деталей ошибки.
+ */
+function _addsNothing (error: unknown, fields: Record<string, any>): boolean {
+  for (const key of Object.keys(fields)) {
+    if (key !== 'cause' && _readField(error, key) !== fields[key]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Оборачивает ошибку новой ошибкой с контекстом, как `anyhow::Context` в Rust: исходная ошибка становится причиной
+ * `cause` новой ошибки и не теряется.
+ *
+ * Если исходная ошибка уже является {@link ErrorLike} с тем же сообщением и кодом, а остальные поля контекста ничего не
+ * добавляют к ее деталям, повторная обертка не создается и возвращается сама ошибка.
+ *
+ * @param error   Любое значение.
+ * @param context Сообщение или детали новой ошибки {@link TWrapContext}.
+ * @param options Опции {@link TWrapOptions}.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await db.query(sql)
+ * } catch (e) {
+ *   throw wrap(e, { message: 'loading user 42', userId: 42 })
+ * }
+ * ```
+ */
+function wrap<T extends object = LiteError> (error: unknown, context: TWrapContext, options?: TNullish | TWrapOptions<T>): T {
+  const detail: IErrorDetail & Record<string, any> = {}
+  if (options?.merge) {
+    const source = _readDetail(error)
+    if (source) {
+      for (const key of Object.keys(source)) {
+        if (!_DETAIL_KEYS.has(key)) {
+          try {
+            detail[key] = (source as Record<string, any>)[key]
+          } catch { /**/ }
+        }
+      }
+    }
+  }
+  const fields: Record<string, any> = typeof context === 'string' ? { message: context } : context
+  Object.assign(detail, fields)
+
+  // Повторная обертка тем же контекстом ничего не добавляет
+  if (isErrorLike(error) && _readField(error, 'message') === detail.message && _readField(error, 'code') === detail.code && _addsNothing(error, fields)) {
+    return error as unknown as T
+  }
+  detail.cause = error
+  const ErrorClass = options?.errorClass ?? LiteError
+  return new ErrorClass(detail) as T
+}
+
+function _readCode (error: unknown): undefined | string | number {
+  const code = _readField(error, 'code')
+  return (typeof code === 'string' || typeof code === 'number') ? code : undefined
+}
+
+/**
+ * Возвращает первый код ошибки `code` основной цепочки {@link iterateCauseChain()}. Обертки {@link wrap()} без
+ * собственного кода не скрывают код исходной ошибки, а обертка с кодом его переопределяет. Вложенные ошибки
+ * `AggregateError` не просматриваются.
+ *
+ * @param error Любое значение.
+ * @returns Код или `undefined`, если ни одна ошибка цепочки не имеет кода.
+ */
+function lookupCode (error: unknown): undefined | string | number {
+  for (const cause of iterateCauseChain(error)) {
+    const code = _readCode(cause)
+    if (typeof code !== 'undefined') {
+      return code
+    }
+  }
+  return undefined
+}
+
+/**
+ * Возвращает последний, самый глубокий код ошибки `code` основной цепочки {@link iterateCauseChain()}, например
+ * `'ECONNREFUSED'` исходной ошибки, даже если обертки переопределили код.
+ *
+ * @param error Любое значение.
+ * @returns Код или `undefined`, если ни одна ошибка цепочки не имеет кода.
+ */
+function rootCode (error: unknown): undefined | string | number {
+  let result: undefined | string | number
+  for (const cause of iterateCauseChain(error)) {
+    result = _readCode(cause) ?? result
+  }
+  return result
+}
+
+/**
+ * Приводит основную цепочку `cause` к строке сообщений через `': '`, например
+ * `loading user 42: querying db: connection refused`. Пустые и повторяющиеся подряд сообщения пропускаются, причины,
+ * которые являются строками, добавляются как есть.
+ *
+ * @param error     Любое значение.
+ * @param separator Разделитель сообщений. По умолчанию `': '`.
+ */
+function breadcrumb (error: unknown, separator = ': '): string {
+  const messages: string[] = []
+  for (const cause of iterateCauseChain(error)) {
+    const message = typeof cause === 'string' ? cause : _readField(cause, 'message')
+    if (typeof message === 'string' && message.length > 0 && messages[messages.length - 1] !== message) {
+      messages.push(message)
+    }
+  }
+  return messages.join(separator)
+}
+
+export {
+  type TWrapContext,
+  type TWrapOptions,
+  wrap,
+  lookupCode,
+  rootCode,
+  breadcrumb
+}
@@ -0,0 +1,188 @@
+import { describe, test, expect } from 'vitest'
+import { ERROR_TYPE_KEY } from './constants.ts'
+import { LiteError, BaseError } from './errors.ts'
+import { TypeInspectors } from './inspectors.ts'
+import {
+  jsonObjectInto,
+  errorLikeToToString,
+  nativeErrorToString,
+  errorToJsonLike,
+  errorToString,
+  errorWriteJson,
+  errorWriteText
+} from './serialization.ts'
+import type { TJsonObject } from './types.ts'
+//
+import {
+  StringSink,
+  writeJsonInto,
+  writeTextInto,
+  JsonStreamWriter,
+  TextStreamWriter
+} from './writer.ts'
+
+const samples: TJsonObject[] = [
+  {},
+  { a: null, b: true, c: -1.5, d: '', e: 'text' },
+  { multi: 'first\nsecond\n\nlast', quote: 'a"b\\c\u0001ж😀' },
+  { nested: { list: [1, [2, { x: 'y' }], {}, []], empty: {} } },
+  { stack: 'Error: boom\n    at fn (file.js:1:2)', __meta: { kind: 'object', total: 8, truncated: 3 } }
+]
+
+describe('writer', () => {
+  test('StringSink', () => {
+    const sink = new StringSink()
+    const write = sink.write
+    write('a')
+    write('b')
+    expect(sink.value).toBe('ab')
+  })
+
+  test('writeJsonInto', () => {
+    for (const sample of samples) {
+      const sink = new StringSink()
+      writeJsonInto(sample, sink.write)
+      expect(sink.value).toBe(JSON.stringify(sample))
+    }
+    const sink = new StringSink()
+    writeJsonInto([1, 'a', null, [], {}], sink.write)
+    expect(sink.value).toBe('[1,"a",null,[],{}]')
+  })
+
+  test('writeTextInto', () => {
+    for (const sample of samples) {
+      const receiver: string[] = []
+      jsonObjectInto(sample, receiver, 0)
+      const sink = new StringSink()
+      writeTextInto(sample, sink.write)
+      expect(sink.value).toBe(receiver.join('\n'))
+    }
+  })
+
+  test('errorWriteJson + errorWriteText', () => {
+    const error = new LiteError({
+      name: 'WriterError',
+      message: 'line 1\nline 2',
+      code: 'E_WRITER',
+      cause: new Error('native', { cause: [1, 'two', { three: 3 }] })
+    })
+    const options = { includeStack: true, maxDepth: 4 }
+
+    const chunks: string[] = []
+    errorWriteJson(error, (chunk) => chunks.push(chunk), options)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.join('')).toBe(JSON.stringify(errorToJsonLike(error, options)))
+
+    const sink = new StringSink()
+    errorWriteText(error, sink.write, options)
+    expect(sink.value).toBe(errorToString(error, options))
+    expect(sink.value.startsWith('name: WriterError\nmessage: line 1\n  line 2\ncode: E_WRITER')).toBe(true)
+  })
+
+  test('streamed output matches the serialized object', () => {
+    class Money {
+      readonly amount: number
+      constructor(amount: number) {
+        this.amount = amount
+      }
+    }
+    class HttpError extends BaseError<Record<string, any>> {}
+    Object.defineProperty(HttpError.prototype, ERROR_TYPE_KEY, { value: 'http' })
+
+    const circular: Record<string, any> = { id: 1 }
+    circular['self'] = circular
+    const shared = { id: 2 }
+    const native = new Error('native', { cause: [1, { two: 2 }] })
+    const lite = new LiteError({ name: 'LiteError', message: 'lite', token: 't', items: Array.from({ length: 10 }, (_, i) => ({ i })) })
+    const values: unknown[] = [
+      undefined,
+      null,
+      'text',
+      42,
+      [],
+      [1, { a: 'b' }],
+      {},
+      { empty: {}, list: [], nested: { deep: { deeper: { deepest: 1 } } } },
+      { 'key"\n': 'a"b\\c\u0001ж😀\ud800', multi: 'first\nsecond' },
+      new Map<any, any>([['token', 't'], ['key', { a: 1 }], [{ k: 1 }, undefined]]),
+      new Set([1, {}, [], new Set()]),
+      new Map(),
+      new Set(),
+      { circular, first: shared, second: shared, price: new Money(5) },
+      native,
+      new AggregateError([new Error('a'), { name: 'B' }], 'aggregate'),
+      lite,
+      new HttpError({ message: 'http', status: 404, cause: new HttpError({ message: 'inner', headers: new Map([['a', '1']]) }) })
+    ]
+    const inspectors = new TypeInspectors()
+      .register(Money, (money) => ({ meta: { type: 'map', value: [['amount', money.amount], [{ list: [money.amount] }, {}]] } }))
+    const optionSets = [
+      {},
+      { ignoreEmpty: true },
+      { ignoreEmpty: true, ignoreMeta: true, maxDepth: 6 },
+      { markCircular: true, maxDepth: 4 },
+      { maxItems: 2, maxTotalItems: 6, maxDepth: 4 },
+      { includeStack: true, stackFrames: true, maxStringLength: 4 },
+      { inspectors, redact: { keys: ['token'] }, typeFieldName: '_type', precompile: true, maxDepth: 4 }
+    ]
+
+    for (const options of optionSets) {
+      for (const value of values) {
+        const json = errorToJsonLike(value, options)
+        const chunks: string[] = []
+        errorWriteJson(value, (chunk) => chunks.push(chunk), options)
+        expect(chunks.join('')).toBe(JSON.stringify(json))
+
+        const text = new StringSink()
+        writeTextInto(json as TJsonObject, text.write)
+        expect(errorToString(value, options)).toBe(text.value)
+      }
+    }
+
+    for (const options of optionSets) {
+      const liteText = new StringSink()
+      writeTextInto(errorToJsonLike(lite, options) as TJsonObject, liteText.write)
+      expect(errorLikeToToString(lite, options)).toBe(liteText.value)
+      const nativeText = new StringSink()
+      writeTextInto(errorToJsonLike(native, options) as TJsonObject, nativeText.write)
+      expect(nativeErrorToString(native, options)).toBe(nativeText.value)
+    }
+  })
+
+  test('StreamWriter opens containers lazily', () => {
+    const sink = new StringSink()
+    const writer = new JsonStreamWriter(sink.write, '__meta')
+    writer.openObject()
+    writer.head('_type', 'http')
+    writer.key('dropped')
+    writer.openObject()
+    writer.close(false)
+    writer.key('kept')
+    writer.openArray('set')
+    writer.close(true)
+    writer.key('list')
+    writer.openArray()
+    writer.value(1)
+    writer.close(true)
+    writer.close(true)
+    expect(sink.value).toBe('{"_type":"http","kept":{"__meta":{"type":"set","value":[]}},"list":[1]}')
+
+    const empty = new StringSink()
+    const dropped = new JsonStreamWriter(empty.write, '__meta')
+    dropped.openObject()
+    dropped.head('_type', 'http')
+    dropped.close(false)
+    expect(empty.value).toBe('')
+
+    const text = new StringSink()
+    const textWriter = new TextStreamWriter(text.write, '__meta')
+    textWriter.openArray()
+    textWriter.value('a')
+    textWriter.openObject()
+    textWriter.key('b')
+    textWriter.value(1)
+    textWriter.close(true)
+    textWriter.close(true)
+    expect(text.value).toBe('__meta:\n  type: array\n  value:\n    [0]: a\n    [1]:\n      b: 1')
+  })
+})
@@ -0,0 +1,440 @@
+import type {
+  TNullish,
+  TJsonObject,
+  TJsonArray,
+  TJsonLike
+} from './types.ts'
+
+/**
+ * Приемник фрагментов текста, например `process.stdout.write` или {@link StringSink.write}.
+ */
+type TWriterSink = (chunk: string) => void
+
+/**
+ * Накопитель строки для функций записи. Конкатенация строк в современных движках не копирует данные до первого
+ * чтения результата.
+ *
+ * @example
+ * ```ts
+ * const sink = new StringSink()
+ * writeJsonInto({ name: 'Error' }, sink.write)
+ * sink.value // '{"name":"Error"}'
+ * ```
+ */
+class StringSink {
+  protected _value = ''
+
+  /**
+   * Добавляет фрагмент. Метод привязан к экземпляру и может передаваться как {@link TWriterSink}.
+   */
+  readonly write: TWriterSink = (chunk: string): void => {
+    this._value += chunk
+  }
+
+  /**
+   * Накопленная строка.
+   */
+  get value (): string {
+    return this._value
+  }
+}
+
+/**
+ * Записывает значение в формате JSON. Результат совпадает с `JSON.stringify(value)`.
+ *
+ * @param value Корректный тип JSON.
+ * @param sink  Приемник фрагментов.
+ */
+function writeJsonInto (value: TJsonLike, sink: TWriterSink): void {
+  if (value === null) {
+    sink('null')
+    return
+  }
+  switch (typeof value) {
+    case 'string':
+      sink(JSON.stringify(value))
+      return
+    case 'number':
+      sink(Number.isFinite(value) ? String(value) : 'null')
+      return
+    case 'boolean':
+      sink(value ? 'true' : 'false')
+      return
+  }
+  if (Array.isArray(value)) {
+    sink('[')
+    for (let i = 0; i < value.length; ++i) {
+      if (i > 0) {
+        sink(',')
+      }
+      const item = value[i]
+      writeJsonInto(typeof item === 'undefined' ? null : item, sink)
+    }
+    sink(']')
+    return
+  }
+  sink('{')
+  let first = true
+  for (const key of Object.keys(value)) {
+    const item = value[key]
+    if (typeof item === 'undefined') {
+      continue
+    }
+    sink(first ? `${JSON.stringify(key)}:` : `,${JSON.stringify(key)}:`)
+    first = false
+    writeJsonInto(item, sink)
+  }
+  sink('}')
+}
+
+/**
+ * Символы, которые `JSON.stringify()` экранирует в строках, включая одиночные суррогаты.
+ */
+// eslint-disable-next-line no-control-regex
+const _RE_JSON_ESCAPE = /["\\\x00-\x1f\ud800-\udfff]/
+
+/**
+ * Аналог `JSON.stringify(value)` для строки. Строки без экранируемых символов заключаются в кавычки без вызова
+ * `JSON.stringify()`, который заметно дороже для коротких строк.
+ */
+function _quoteJson (value: string): string {
+  return _RE_JSON_ESCAPE.test(value) ? JSON.stringify(value) : `"${value}"`
+}
+
+/**
+ * Кеш ключей объектов в кавычках. Имена полей ошибок повторяются от записи к записи, а размер кеша ограничен, чтобы
+ * произвольные ключи пользовательских данных не удерживали память.
+ */
+const _JSON_KEYS: Map<string, string> = new Map()
+const _JSON_KEYS_LIMIT = 1024
+
+function _quoteJsonKey (key: string): string {
+  let quoted = _JSON_KEYS.get(key)
+  if (typeof quoted === 'undefined') {
+    quoted = _quoteJson(key)
+    if (_JSON_KEYS.size < _JSON_KEYS_LIMIT) {
+      _JSON_KEYS.set(key, quoted)
+    }
+  }
+  return quoted
+}
+
+/**
+ * Аналог `JSON.stringify(value)` для корректного значения JSON.
+ */
+function _stringifyJson (value: TJsonLike): string {
+  if (value === null) {
+    return 'null'
+  }
+  switch (typeof value) {
+    case 'string':
+      return _quoteJson(value)
+    case 'number':
+      return Number.isFinite(value) ? String(value) : 'null'
+    case 'boolean':
+      return value ? 'true' : 'false'
+  }
+  return JSON.stringify(value)
+}
+
+class _TextLines {
+  protected readonly _sink: TWriterSink
+  protected _first = true
+
+  constructor(sink: TWriterSink) {
+    this._sink = sink
+  }
+
+  line (value: string): void {
+    this._sink(this._first ? value : `\n${value}`)
+    this._first = false
+  }
+}
+
+function _writeTextProp (key: string, value: TJsonLike, lines: _TextLines, level: number): void {
+  const indent = '  '.repeat(level)
+  if (value === null) {
+    lines.line(`${indent}${key}: null`)
+    return
+  }
+  switch (typeof value) {
+    case 'number':
+    case 'boolean':
+      lines.line(`${indent}${key}: ${value}`)
+      return
+    case 'string': {
+      const i = value.indexOf('\n')
+      if (i === -1) {
+        lines.line(`${indent}${key}: ${value}`)
+        return
+      }
+      // Продолжение строки смещается на два пробела
+      lines.line(`${indent}${key}: ${value.replaceAll('\n', `\n${indent}  `)}`)
+      return
+    }
+  }
+  if (typeof value !== 'object') {
+    return
+  }
+  lines.line(`${indent}${key}:`)
+  if (Array.isArray(value)) {
+    _writeTextArray(value, lines, level + 1)
+  }
+  else {
+    _writeTextObject(value, lines, level + 1)
+  }
+}
+
+function _writeTextObject (objectSource: TJsonObject, lines: _TextLines, level: number): void {
+  for (const key of Object.keys(objectSource)) {
+    _writeTextProp(key, objectSource[key] as TJsonLike, lines, level)
+  }
+}
+
+function _writeTextArray (arraySource: TJsonArray, lines: _TextLines, level: number): void {
+  for (let i = 0; i < arraySource.length; ++i) {
+    _writeTextProp(`[${i}]`, arraySource[i] as TJsonLike, lines, level)
+  }
+}
+
+/**
+ * Открытый контейнер {@link StreamWriter}.
+ */
+class _StreamFrame {
+  readonly array: boolean
+  /**
+   * Тип заместителя `{ __meta: { type, value: [...] } }`, в который завернут массив, например `'set'`.
+   */
+  readonly wrap: null | string
+  /**
+   * Поле, которое записывается первым при открытии объекта.
+   */
+  head: null | readonly [string, TJsonLike] = null
+  /**
+   * Ключ следующего значения объекта.
+   */
+  key: null | string = null
+  /**
+   * Количество записанных значений.
+   */
+  count = 0
+  /**
+   * Уровень отступа значений в текстовом формате.
+   */
+  level = 0
+
+  constructor(array: boolean, wrap: null | string) {
+    this.array = array
+    this.wrap = wrap
+  }
+}
+
+/**
+ * Потоковая запись результата сериализации по мере обхода значения, без промежуточного объекта.
+ *
+ * Контейнеры открываются отложенно: открытие записывается вместе с первым значением или при закрытии с сохранением.
+ * Это позволяет отказаться от пустого контейнера, который по правилам сериализации не попадает в результат, уже после
+ * его обхода. Значение, записанное на верхнем уровне, должно быть объектом, а массив верхнего уровня заворачивается в
+ * заместитель `{ __meta: { type: 'array', value: [...] } }`, как это делает `errorToJsonLike()`.
+ */
+abstract class StreamWriter {
+  protected readonly _sink: TWriterSink
+  protected readonly _metaFieldName: string
+  protected readonly _frames: _StreamFrame[] = []
+  protected _flushed = 0
+
+  constructor(sink: TWriterSink, metaFieldName: string) {
+    this._sink = sink
+    this._metaFieldName = metaFieldName
+  }
+
+  /**
+   * Открывает объект.
+   */
+  openObject (): void {
+    this._frames.push(new _StreamFrame(false, null))
+  }
+
+  /**
+   * Открывает массив.
+   *
+   * @param wrap Тип заместителя, в который заворачивается массив, например `'map'` или `'set'`.
+   */
+  openArray (wrap?: TNullish | string): void {
+    this._frames.push(new _StreamFrame(true, wrap ?? (this._frames.length === 0 ? 'array' : null)))
+  }
+
+  /**
+   * Устанавливает поле, которое записывается первым при открытии текущего объекта.
+   */
+  head (key: string, value: TJsonLike): void {
+    (this._frames[this._frames.length - 1] as _StreamFrame).head = [key, value]
+  }
+
+  /**
+   * Устанавливает ключ следующего значения текущего объекта. Ключ, для которого значение не было записано, заменяется
+   * следующим ключом.
+   */
+  key (key: string): void {
+    (this._frames[this._frames.length - 1] as _StreamFrame).key = key
+  }
+
+  /**
+   * Записывает значение целиком: в текущий объект с ключом {@link key()}, в текущий массив или на верхний уровень.
+   */
+  value (value: TJsonLike): void {
+    const frame = this._frames[this._frames.length - 1]
+    if (!frame) {
+      this._writeRoot(value)
+      return
+    }
+    if (this._flushed < this._frames.length) {
+      this._flush()
+    }
+    this._writeValue(frame, value)
+    ++frame.count
+    frame.key = null
+  }
+
+  /**
+   * Закрывает текущий контейнер.
+   *
+   * @param keep Сохранить ли контейнер, в который не было записано ни одного значения.
+   */
+  close (keep: boolean): void {
+    if (this._flushed < this._frames.length) {
+      if (!keep) {
+        this._frames.pop()
+        return
+      }
+      this._flush()
+    }
+    this._writeClose(this._frames.pop() as _StreamFrame)
+    --this._flushed
+  }
+
+  protected _flush (): void {
+    for (; this._flushed < this._frames.length; ++this._flushed) {
+      const parent = this._frames[this._flushed - 1] ?? null
+      const frame = this._frames[this._flushed] as _StreamFrame
+      this._writeOpen(frame, parent)
+      if (parent) {
+        ++parent.count
+        parent.key = null
+      }
+      if (frame.head) {
+        this._writeValue(frame, frame.head[1], frame.head[0])
+        ++frame.count
+      }
+    }
+  }
+
+  /**
+   * Записывает открытие контейнера `frame` в значение `parent` или на верхнем уровне.
+   */
+  protected abstract _writeOpen (frame: _StreamFrame, parent: null | _StreamFrame): void
+  protected abstract _writeClose (frame: _StreamFrame): void
+  protected abstract _writeValue (frame: _StreamFrame, value: TJsonLike, key?: string): void
+  protected abstract _writeRoot (value: TJsonLike): void
+}
+
+/**
+ * Потоковая запись в формате JSON. Результат совпадает с {@link writeJsonInto()} для объекта, построенного тем же
+ * обходом.
+ */
+class JsonStreamWriter extends StreamWriter {
+  protected _prefix (frame: _StreamFrame, key: TNullish | string): string {
+    const separator = frame.count > 0 ? ',' : ''
+    return frame.array ? separator : `${separator}${_quoteJsonKey(key ?? frame.key ?? '')}:`
+  }
+
+  protected _writeOpen (frame: _StreamFrame, parent: null | _StreamFrame): void {
+    const prefix = parent ? this._prefix(parent, null) : ''
+    if (frame.wrap !== null) {
+      this._sink(`${prefix}{${_quoteJson(this._metaFieldName)}:{"type":${_quoteJson(frame.wrap)},"value":[`)
+    }
+    else {
+      this._sink(frame.array ? `${prefix}[` : `${prefix}{`)
+    }
+  }
+
+  protected _writeClose (frame: _StreamFrame): void {
+    this._sink(frame.wrap !== null ? ']}}' : (frame.array ? ']' : '}'))
+  }
+
+  // Готовое значение, например заместитель, записывается одним фрагментом вместе с ключом
+  protected _writeValue (frame: _StreamFrame, value: TJsonLike, key?: string): void {
+    this._sink(`${this._prefix(frame, key)}${_stringifyJson(value)}`)
+  }
+
+  protected _writeRoot (value: TJsonLike): void {
+    this._sink(_stringifyJson(value))
+  }
+}
+
+/**
+ * Потоковая запись в текстовом формате с отступами. Результат совпадает с {@link writeTextInto()} для объекта,
+ * построенного тем же обходом.
+ */
+class TextStreamWriter extends StreamWriter {
+  protected readonly _lines: _TextLines
+
+  constructor(sink: TWriterSink, metaFieldName: string) {
+    super(sink, metaFieldName)
+    this._lines = new _TextLines(sink)
+  }
+
+  protected _label (frame: _StreamFrame, key: TNullish | string): string {
+    return frame.array ? `[${frame.count}]` : (key ?? frame.key ?? '')
+  }
+
+  protected _writeOpen (frame: _StreamFrame, parent: null | _StreamFrame): void {
+    // Значения объекта верхнего уровня не имеют отступа
+    let level = -1
+    if (parent) {
+      level = parent.level
+      this._lines.line(`${'  '.repeat(level)}${this._label(parent, null)}:`)
+    }
+    if (frame.wrap !== null) {
+      this._lines.line(`${'  '.repeat(level + 1)}${this._metaFieldName}:`)
+      _writeTextProp('type', frame.wrap, this._lines, level + 2)
+      this._lines.line(`${'  '.repeat(level + 2)}value:`)
+      level += 2
+    }
+    frame.level = level + 1
+  }
+
+  protected _writeClose (_frame: _StreamFrame): void { /**/ }
+
+  protected _writeValue (frame: _StreamFrame, value: TJsonLike, key?: string): void {
+    _writeTextProp(this._label(frame, key), value, this._lines, frame.level)
+  }
+
+  protected _writeRoot (value: TJsonLike): void {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      _writeTextObject(value, this._lines, 0)
+    }
+  }
+}
+
+/**
+ * Записывает объект в текстовом формате с отступами. Результат совпадает с
+ * `jsonObjectInto(objectSource, receiver, 0)` и последующим `receiver.join('\n')`, но не создает промежуточный массив
+ * строк.
+ *
+ * @param objectSource Корректный Json-объект.
+ * @param sink         Приемник фрагментов.
+ */
+function writeTextInto (objectSource: TJsonObject, sink: TWriterSink): void {
+  _writeTextObject(objectSource, new _TextLines(sink), 0)
+}
+
+export {
+  type TWriterSink,
+  StringSink,
+  writeJsonInto,
+  writeTextInto,
+  StreamWriter,
+  JsonStreamWriter,
+  TextStreamWriter
+}